@@ -1,50 +1,102 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ToolType, Transform, AppState, ObjectSource } from './types';
-import { BrushIcon, HandIcon, UndoIcon, ResetIcon, DownloadIcon, UploadIcon, MagicIcon } from './components/Icons';
-import { generateImageFromText, placeObjectInImage, eraseObjectInImage } from './services/geminiService';
+import { ToolType, Transform, AppState, ObjectSource, RetryPolicy, AppNotification, EditStep, MaskShape, Point, MaskExportPolicy, DriftReport, ObjectLayer, LibraryObject, PlacementRegion, PlaceRegionInput, ProjectSnapshot, PromptOperation, PromptTemplate, OutpaintSide } from './types';
+import { BrushIcon, EraserIcon, RectangleIcon, EllipseIcon, LassoIcon, HandIcon, ObjectIcon, UndoIcon, RedoIcon, ResetIcon, DownloadIcon, UploadIcon, MagicIcon } from './components/Icons';
+import { MODEL_OPTIONS, DEFAULT_MODEL_OPTION_ID, DEFAULT_PREFERRED_SIZE, getModelOption, getProvider } from './services/providers';
+import { DEFAULT_RETRY_POLICY, runWithRetry, runVariants, isAbortError } from './services/requestPolicy';
+import { toAiServiceError, AI_ERROR_MESSAGES } from './services/errors';
+import { NotificationPanel } from './components/NotificationPanel';
+import { VariantPicker } from './components/VariantPicker';
+import { HistoryPanel } from './components/HistoryPanel';
+import { MaskPolicyPanel, MaskPolicyOperation } from './components/MaskPolicyPanel';
+import { ObjectPrepPanel } from './components/ObjectPrepPanel';
+import { ObjectLibraryPanel } from './components/ObjectLibraryPanel';
+import { RegionPanel } from './components/RegionPanel';
+import { PromptPanel } from './components/PromptPanel';
+import { EditOptionsPanel } from './components/EditOptionsPanel';
+import { placeRegions } from './services/multiPlace';
+import { BatchJob, BatchOperation } from './services/batch';
+import { BatchPanel } from './components/BatchPanel';
+import { serializeProject, parseProject, ProjectFileError, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { listLibraryObjects, addLibraryObject, updateLibraryObject, deleteLibraryObject } from './services/objectLibrary';
+import { EMPTY_INSTRUCTIONS, listPromptTemplates, savePromptTemplate, deletePromptTemplate } from './services/promptTemplates';
 import { ComparisonSlider } from './components/ComparisonSlider';
-
-// Helper to resize image to match target dimensions
-const resizeImage = (base64Str: string, width: number, height: number): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(img, 0, 0, width, height);
-        resolve(canvas.toDataURL('image/png'));
-      } else {
-        resolve(base64Str);
-      }
-    };
-    img.src = base64Str;
-  });
-};
+import { DEFAULT_MASK_EXPORT_POLICY } from './utils/mask';
+import { createMaskHistory, MaskHistory } from './utils/maskHistory';
+import { fillShape, getShapeBounds, strokeShapePreview, constrainToSquare } from './utils/shapes';
+import { beginStroke, Stroke, StrokePoint } from './utils/stroke';
+import { protectUnmaskedArea } from './utils/composite';
+import { fitResultToSize, loadImage, exportMask, FittedResult } from './utils/image';
+import { cropForRegion, stitchRegion } from './utils/region';
+import { Rect } from './utils/mask';
+import { REGION_COLORS, getRegionColor, nextRegionColor, renderRegionMap, unionMasks, drawTintedMask } from './utils/regionMap';
+import { removeBackground, trimToContent, DEFAULT_BACKGROUND_OPTIONS, BackgroundKeyOptions } from './utils/background';
+import { OUTPAINT_SIDES, DEFAULT_OUTPAINT_SIDES, DEFAULT_OUTPAINT_AMOUNT, getOutpaintPadding, expandCanvas } from './utils/outpaint';
+import { createInitialLayer, drawObjectLayer, drawLayerHandles, hitTestLayer, transformLayer, renderFootprint, renderGuideComposite, LayerHandle } from './utils/objectLayer';
 
 function App() {
   // --- State ---
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [baseImage, setBaseImage] = useState<string | null>(null);
-  const [processedImage, setProcessedImage] = useState<string | null>(null);
+  // Document history: every applied operation is a version, the current one is the base image
+  const [editSteps, setEditSteps] = useState<EditStep[]>([]);
+  const [editIndex, setEditIndex] = useState<number>(-1);
+  const baseImage = editSteps[editIndex]?.image ?? null;
+  // Result candidates of the last operation; the selected one is shown in COMPARING mode
+  const [variants, setVariants] = useState<string[]>([]);
+  const [selectedVariant, setSelectedVariant] = useState<number>(0);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [driftReports, setDriftReports] = useState<DriftReport[]>([]); // One per variant
+  const [protectUnmasked, setProtectUnmasked] = useState<boolean>(true); // Composite results over the base locally
+  const [autoCropRegion, setAutoCropRegion] = useState<boolean>(true); // Send only the area around small masks
+  const processedImage = variants[selectedVariant] ?? null;
+  const [comparisonBase, setComparisonBase] = useState<string | null>(null); // "Before" image when it differs from the base (outpainting)
   
   // Canvas State
   const [tool, setTool] = useState<ToolType>(ToolType.BRUSH);
   const [brushSize, setBrushSize] = useState<number>(30);
+  const [brushSmoothing, setBrushSmoothing] = useState<number>(0.3);
+  const [brushHardness, setBrushHardness] = useState<number>(1);
+  const [maskPolicies, setMaskPolicies] = useState<Record<MaskPolicyOperation, MaskExportPolicy>>({
+    place: DEFAULT_MASK_EXPORT_POLICY,
+    erase: { ...DEFAULT_MASK_EXPORT_POLICY, grow: 4 }, // A little margin around objects being removed
+  });
   const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, k: 1 });
-  const [history, setHistory] = useState<ImageData[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0); // Bumped whenever the mask history changes
   const [isHoveringCanvas, setIsHoveringCanvas] = useState(false);
+  const [isAltHeld, setIsAltHeld] = useState(false); // Alt turns the brush subtractive while held
+  const isPaintTool = tool === ToolType.BRUSH || tool === ToolType.ERASER;
+  const isShapeTool = tool === ToolType.RECTANGLE || tool === ToolType.ELLIPSE || tool === ToolType.LASSO;
   
   // Object Placement State
-  const [objectMode, setObjectMode] = useState<'upload' | 'text'>('upload');
+  const [objectMode, setObjectMode] = useState<'upload' | 'text' | 'library'>('upload');
   const [objectSource, setObjectSource] = useState<ObjectSource | null>(null);
   const [textPrompt, setTextPrompt] = useState<string>('');
   const [isGeneratingObject, setIsGeneratingObject] = useState(false);
-
-  // Model Selection
-  const [selectedModel, setSelectedModel] = useState<string>('gemini-3-pro-image-preview');
+  const [isPreparingObject, setIsPreparingObject] = useState(false);
+  const [isSegmentingObject, setIsSegmentingObject] = useState(false);
+  const [backgroundTolerance, setBackgroundTolerance] = useState<number>(DEFAULT_BACKGROUND_OPTIONS.tolerance);
+  const [libraryObjects, setLibraryObjects] = useState<LibraryObject[]>([]);
+  // Multi-object placement: every region has its own mask canvas and history; the active one is edited
+  const [regions, setRegions] = useState<PlacementRegion[]>([{ id: 1, color: REGION_COLORS[0].hex }]);
+  const [activeRegionId, setActiveRegionId] = useState<number>(1);
+  // Manual pre-placement: the object as a transformable layer whose footprint becomes the mask
+  const [objectImage, setObjectImage] = useState<HTMLImageElement | null>(null);
+  const [objectLayer, setObjectLayer] = useState<ObjectLayer | null>(null);
+  // Free-text guidance appended to the operation prompts, and the saved templates for it
+  const [instructions, setInstructions] = useState<Record<PromptOperation, string>>(EMPTY_INSTRUCTIONS);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(() => listPromptTemplates());
+  // Text-driven edits: description for replace / restyle / outpaint, and the outpainting extent
+  const [editPrompt, setEditPrompt] = useState<string>('');
+  const [outpaintSides, setOutpaintSides] = useState<OutpaintSide[]>(DEFAULT_OUTPAINT_SIDES);
+  const [outpaintAmount, setOutpaintAmount] = useState<number>(DEFAULT_OUTPAINT_AMOUNT);
+
+  // Model Selection (each option maps to a provider + model)
+  const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_MODEL_OPTION_ID);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+
+  // Non-blocking notifications
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [showBatch, setShowBatch] = useState(false);
+  const notificationIdRef = useRef(0);
 
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -53,31 +105,65 @@ function App() {
   const cursorRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef(false);
   const lastPosRef = useRef<{ x: number; y: number } | null>(null);
+  const maskHistoryRef = useRef<MaskHistory | null>(null);
+  const shapeDraftRef = useRef<MaskShape | null>(null); // Selection shape being defined
+  const strokeRef = useRef<Stroke | null>(null); // Brush stroke in progress
+  const pointersRef = useRef<Map<number, Point>>(new Map()); // Active pointers (client coords)
+  const pinchRef = useRef<{ distance: number; center: Point; transform: Transform } | null>(null); // Two-finger gesture
+  const lassoCursorRef = useRef<Point | null>(null); // Floating end of the lasso outline
+  const objectDragRef = useRef<{ handle: LayerHandle; start: Point; initial: ObjectLayer; current: ObjectLayer } | null>(null); // Layer transform in progress
+  const abortControllerRef = useRef<AbortController | null>(null); // In-flight AI operation
+  const generateControllerRef = useRef<AbortController | null>(null); // In-flight object generation, runs alongside edits
+  const segmentControllerRef = useRef<AbortController | null>(null); // In-flight AI object segmentation
+  const pendingEditRef = useRef<Omit<EditStep, 'id' | 'image' | 'createdAt'> | null>(null); // Operation behind the current results
+  const editIdRef = useRef(0);
+  const regionMasksRef = useRef<Map<number, { canvas: HTMLCanvasElement; history: MaskHistory }>>(new Map());
+  const regionIdRef = useRef(1);
+  const tintCanvasRef = useRef<HTMLCanvasElement | null>(null); // Scratch buffer for drawing coloured regions
 
   // --- Initialization ---
 
-  // Initialize mask canvas when base image loads
+  // Initialize mask canvas when base image loads, and start over when the image size changes
+  // (outpainting, or moving through the history across one)
   useEffect(() => {
-    if (baseImage && !maskCanvasRef.current) {
-      const img = new Image();
-      img.onload = () => {
-        const mc = document.createElement('canvas');
-        mc.width = img.width;
-        mc.height = img.height;
-        const ctx = mc.getContext('2d');
-        if(ctx) {
-           // Initialize transparent
-           ctx.clearRect(0,0, mc.width, mc.height);
-           setHistory([ctx.getImageData(0, 0, mc.width, mc.height)]);
-        }
-        maskCanvasRef.current = mc;
-        fitImageToScreen(img.width, img.height);
-        draw();
-      };
-      img.src = baseImage;
-    }
+    if (!baseImage) return;
+    const img = new Image();
+    img.onload = () => {
+      const current = maskCanvasRef.current;
+      if (current && current.width === img.width && current.height === img.height) return;
+
+      let regionId = activeRegionId;
+      if (current) {
+        // Painted masks no longer line up with the image: back to one empty region
+        regionId = ++regionIdRef.current;
+        regionMasksRef.current = new Map();
+        setRegions([{ id: regionId, color: REGION_COLORS[0].hex }]);
+        setActiveRegionId(regionId);
+        setObjectLayer(null);
+      }
+      const { canvas: mc, history } = createRegionMask(img.width, img.height);
+      regionMasksRef.current.set(regionId, { canvas: mc, history });
+      maskCanvasRef.current = mc;
+      maskHistoryRef.current = history;
+      setHistoryVersion(v => v + 1);
+      fitImageToScreen(img.width, img.height);
+      draw();
+    };
+    img.src = baseImage;
   }, [baseImage]);
 
+  const createRegionMask = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if(ctx) {
+       // Initialize transparent
+       ctx.clearRect(0,0, width, height);
+    }
+    return { canvas, history: createMaskHistory(canvas) };
+  };
+
   const fitImageToScreen = (w: number, h: number) => {
     if (!containerRef.current) return;
     const cw = containerRef.current.clientWidth;
@@ -101,48 +187,71 @@ function App() {
     const ctx = canvas?.getContext('2d');
     if (!canvas || !ctx || !baseImage || !maskCanvasRef.current) return;
 
-    // Clear Screen
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    ctx.save();
-    // Apply Transform
-    ctx.translate(transform.x, transform.y);
-    ctx.scale(transform.k, transform.k);
-
     // Draw Base Image
     const img = new Image();
     img.src = baseImage;
     // Note: In a real high-perf app, we wouldn't create new Image() every frame, 
     // but for React state simplicity in this prototype, we rely on browser cache.
     // Ideally store HTMLImageElement in a ref.
-    if (img.complete) {
+    const renderLayers = () => {
+        // Clear Screen
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        ctx.save();
+        // Apply Transform
+        ctx.translate(transform.x, transform.y);
+        ctx.scale(transform.k, transform.k);
+
         ctx.drawImage(img, 0, 0);
         
-        // Draw Mask Overlay (Uniform Red semi-transparent)
-        if (maskCanvasRef.current) {
+        // Draw Mask Overlay (Uniform Red semi-transparent, or one colour per region)
+        if (regions.length > 1) {
+            if (!tintCanvasRef.current) tintCanvasRef.current = document.createElement('canvas');
+            for (const region of regions) {
+                const mask = regionMasksRef.current.get(region.id)?.canvas;
+                if (!mask) continue;
+                ctx.save();
+                ctx.globalAlpha = region.id === activeRegionId ? 0.55 : 0.35;
+                drawTintedMask(ctx, mask, tintCanvasRef.current, region.color);
+                ctx.restore();
+            }
+        } else if (maskCanvasRef.current) {
             ctx.save();
             ctx.globalAlpha = 0.5; // Apply opacity to the entire mask layer
             ctx.drawImage(maskCanvasRef.current, 0, 0);
             ctx.restore();
         }
-    } else {
-        img.onload = () => {
-            ctx.drawImage(img, 0, 0);
-            if (maskCanvasRef.current) {
-                ctx.save();
-                ctx.globalAlpha = 0.5;
-                ctx.drawImage(maskCanvasRef.current, 0, 0);
-                ctx.restore();
+
+        // Draw the pre-placed object on top of its own footprint
+        if (objectLayer && objectImage) {
+            drawObjectLayer(ctx, objectImage, objectImage.width, objectImage.height, objectLayer);
+            if (tool === ToolType.OBJECT) {
+                drawLayerHandles(ctx, objectImage.width, objectImage.height, objectLayer, transform.k);
             }
         }
-    }
 
-    ctx.restore();
-  }, [baseImage, transform]);
+        // Draw the selection shape being defined
+        const draft = shapeDraftRef.current;
+        if (draft) {
+            const preview = draft.kind === 'polygon' && lassoCursorRef.current
+                ? { ...draft, points: [...draft.points, lassoCursorRef.current] }
+                : draft;
+            strokeShapePreview(ctx, preview, transform.k);
+        }
+
+        ctx.restore();
+    };
+
+    if (img.complete) {
+        renderLayers();
+    } else {
+        img.onload = renderLayers;
+    }
+  }, [baseImage, transform, objectLayer, objectImage, tool, regions, activeRegionId]);
 
   useEffect(() => {
     draw();
-  }, [draw, transform, history]); // Redraw on changes
+  }, [draw, transform, historyVersion]); // Redraw on changes
 
   // Resize observer for canvas resolution
   useEffect(() => {
@@ -160,7 +269,7 @@ function App() {
 
   // --- Interaction Handlers ---
 
-  const getImageCoords = (e: React.MouseEvent | MouseEvent) => {
+  const getImageCoords = (e: { clientX: number; clientY: number }) => {
     if (!containerRef.current) return { x: 0, y: 0 };
     const rect = containerRef.current.getBoundingClientRect();
     const cx = e.clientX - rect.left;
@@ -173,25 +282,74 @@ function App() {
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const handlePointerDown = (e: React.PointerEvent) => {
     if (appState !== AppState.IDLE) return;
     
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // A second finger turns the interaction into pinch-zoom / pan
+    if (pointersRef.current.size === 2) {
+      cancelActiveDrag();
+      startPinch();
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
+
     isDraggingRef.current = true;
     const coords = getImageCoords(e);
     lastPosRef.current = { x: e.clientX, y: e.clientY };
 
-    if (tool === ToolType.BRUSH && maskCanvasRef.current) {
-      paintMask(coords.x, coords.y);
+    if (tool === ToolType.OBJECT) {
+      const handle = objectLayer && objectImage
+        ? hitTestLayer(coords, objectImage.width, objectImage.height, objectLayer, transform.k, 10)
+        : null;
+      if (objectLayer && handle) {
+        objectDragRef.current = { handle, start: coords, initial: objectLayer, current: objectLayer };
+      }
+    } else if (isPaintTool && maskCanvasRef.current) {
+      startStroke({ ...coords, pressure: getPressure(e) }, tool === ToolType.ERASER || e.altKey);
+    } else if (tool === ToolType.RECTANGLE || tool === ToolType.ELLIPSE) {
+      shapeDraftRef.current = { kind: tool === ToolType.RECTANGLE ? 'rectangle' : 'ellipse', start: coords, end: coords };
+    } else if (tool === ToolType.LASSO) {
+      isDraggingRef.current = false; // The lasso is built click by click
+      const draft = shapeDraftRef.current;
+      if (draft?.kind !== 'polygon') {
+        shapeDraftRef.current = { kind: 'polygon', points: [coords] };
+      } else {
+        // Clicking near the first vertex closes the polygon
+        const first = draft.points[0];
+        const closeRadius = 8 / transform.k;
+        if (draft.points.length >= 3 && Math.hypot(coords.x - first.x, coords.y - first.y) < closeRadius) {
+          closeLasso(e.altKey);
+          return;
+        }
+        draft.points.push(coords);
+      }
+      draw();
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    if (pinchRef.current) {
+      updatePinch();
+      return;
+    }
+
     // Update Custom Cursor Position
     if (cursorRef.current) {
       cursorRef.current.style.left = `${e.clientX}px`;
       cursorRef.current.style.top = `${e.clientY}px`;
     }
 
+    if (tool === ToolType.LASSO && shapeDraftRef.current) {
+      lassoCursorRef.current = getImageCoords(e);
+      draw();
+    }
+
     if (!isDraggingRef.current) return;
 
     if (tool === ToolType.HAND) {
@@ -199,20 +357,103 @@ function App() {
       const dy = e.clientY - (lastPosRef.current?.y || e.clientY);
       setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
       lastPosRef.current = { x: e.clientX, y: e.clientY };
-    } else if (tool === ToolType.BRUSH) {
+    } else if (objectDragRef.current) {
+      const drag = objectDragRef.current;
+      // Shift snaps rotation to 15° steps
+      drag.current = transformLayer(drag.handle, drag.initial, drag.start, getImageCoords(e), e.shiftKey);
+      setObjectLayer(drag.current);
+    } else if (isPaintTool && strokeRef.current) {
+      // Coalesced events keep fast pen / touch strokes dense
+      const events = e.nativeEvent.getCoalescedEvents?.() || [];
+      for (const event of events.length > 0 ? events : [e.nativeEvent]) {
+        markMaskDirty(strokeRef.current.addPoint({ ...getImageCoords(event), pressure: getPressure(event) }));
+      }
+      draw();
+    } else if (shapeDraftRef.current && shapeDraftRef.current.kind !== 'polygon') {
+      const draft = shapeDraftRef.current;
       const coords = getImageCoords(e);
-      paintMask(coords.x, coords.y);
+      draft.end = e.shiftKey ? constrainToSquare(draft.start, coords) : coords;
+      draw();
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pinchRef.current) {
+      // Lifting one finger ends the gesture; the remaining one does not start a new stroke
+      if (pointersRef.current.size < 2) pinchRef.current = null;
+      return;
     }
+    finishDrag();
   };
 
-  const handleMouseUp = () => {
-    if (isDraggingRef.current && tool === ToolType.BRUSH) {
-        saveHistory();
+  const finishDrag = () => {
+    if (objectDragRef.current) {
+        applyFootprint(objectDragRef.current.current);
+        objectDragRef.current = null;
+    }
+    if (isDraggingRef.current && strokeRef.current) {
+        markMaskDirty(strokeRef.current.end());
+        strokeRef.current = null;
+        commitHistory();
+        draw();
+    }
+    if (isDraggingRef.current && shapeDraftRef.current && shapeDraftRef.current.kind !== 'polygon') {
+        commitShape(shapeDraftRef.current, isAltHeld);
     }
     isDraggingRef.current = false;
     lastPosRef.current = null;
   };
 
+  // Abandons the stroke / shape started by the first finger of a pinch gesture
+  const cancelActiveDrag = () => {
+    if (objectDragRef.current) {
+      setObjectLayer(objectDragRef.current.initial);
+      objectDragRef.current = null;
+    }
+    if (strokeRef.current) {
+      strokeRef.current = null;
+      maskHistoryRef.current?.revert();
+    }
+    if (shapeDraftRef.current && shapeDraftRef.current.kind !== 'polygon') {
+      shapeDraftRef.current = null;
+    }
+    isDraggingRef.current = false;
+    lastPosRef.current = null;
+    draw();
+  };
+
+  // Pressure only means something for pens; mice report a constant 0.5 while pressed
+  const getPressure = (e: PointerEvent | React.PointerEvent) => {
+    return e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : undefined;
+  };
+
+  const getPinchGeometry = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      center: { x: (a.x + b.x) / 2 - (rect?.left || 0), y: (a.y + b.y) / 2 - (rect?.top || 0) },
+    };
+  };
+
+  const startPinch = () => {
+    const { distance, center } = getPinchGeometry();
+    pinchRef.current = { distance, center, transform };
+  };
+
+  // Scales around the initial midpoint and follows the midpoint as both fingers move
+  const updatePinch = () => {
+    const pinch = pinchRef.current;
+    if (!pinch || pointersRef.current.size < 2) return;
+    const { distance, center } = getPinchGeometry();
+    const start = pinch.transform;
+    const k = Math.max(0.1, Math.min(start.k * distance / pinch.distance, 5));
+    const imageX = (pinch.center.x - start.x) / start.k;
+    const imageY = (pinch.center.y - start.y) / start.k;
+    setTransform({ x: center.x - imageX * k, y: center.y - imageY * k, k });
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     if (appState !== AppState.IDLE) return;
     e.preventDefault(); 
@@ -237,37 +478,71 @@ function App() {
     });
   };
 
-  const paintMask = (x: number, y: number) => {
+  // Subtractive strokes remove mask pixels instead of adding them
+  const startStroke = (start: StrokePoint, subtractive: boolean) => {
     const ctx = getMaskContext();
     if (!ctx) return;
 
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.beginPath();
-    ctx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
-    // Use solid red. Transparency is handled in global draw() to ensure uniform opacity.
-    ctx.fillStyle = '#ff0000'; 
-    ctx.fill();
+    strokeRef.current = beginStroke(ctx, start, {
+      size: brushSize,
+      subtractive,
+      smoothing: brushSmoothing,
+      hardness: brushHardness
+    });
     draw();
   };
 
-  const saveHistory = () => {
+  const markMaskDirty = (rect: Rect | null) => {
+    if (rect) maskHistoryRef.current?.markDirty(rect.x, rect.y, rect.width, rect.height);
+  };
+
+  // Rasterizes a finished selection shape into the mask as one history step
+  const commitShape = (shape: MaskShape, subtractive: boolean) => {
+    shapeDraftRef.current = null;
+    lassoCursorRef.current = null;
     const ctx = getMaskContext();
-    if (ctx && maskCanvasRef.current) {
-        const data = ctx.getImageData(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-        setHistory(prev => [...prev.slice(-10), data]); // Keep last 10
+    const bounds = getShapeBounds(shape);
+    if (!ctx || bounds.width < 1 || bounds.height < 1) {
+        draw();
+        return;
+    }
+    fillShape(ctx, shape, subtractive);
+    maskHistoryRef.current?.markDirty(bounds.x - 2, bounds.y - 2, bounds.width + 4, bounds.height + 4);
+    commitHistory();
+    draw();
+  };
+
+  const closeLasso = (subtractive: boolean) => {
+    const draft = shapeDraftRef.current;
+    if (draft?.kind !== 'polygon') return;
+    // Drop repeated vertices (e.g. from the clicks of a double-click)
+    const points = draft.points.filter((p, i) => i === 0 || Math.hypot(p.x - draft.points[i - 1].x, p.y - draft.points[i - 1].y) >= 1);
+    if (points.length < 3) return;
+    commitShape({ kind: 'polygon', points }, subtractive);
+  };
+
+  const cancelShape = () => {
+    shapeDraftRef.current = null;
+    lassoCursorRef.current = null;
+    draw();
+  };
+
+  const commitHistory = () => {
+    if (maskHistoryRef.current?.commit()) {
+        setHistoryVersion(v => v + 1);
     }
   };
 
   const handleUndo = () => {
-    if (history.length <= 1) return; // Always keep initial clear state
-    const newHistory = [...history];
-    newHistory.pop(); // Remove current
-    const previousState = newHistory[newHistory.length - 1];
-    setHistory(newHistory);
-    
-    const ctx = getMaskContext();
-    if (ctx && previousState) {
-        ctx.putImageData(previousState, 0, 0);
+    if (maskHistoryRef.current?.undo()) {
+        setHistoryVersion(v => v + 1);
+        draw();
+    }
+  };
+
+  const handleRedo = () => {
+    if (maskHistoryRef.current?.redo()) {
+        setHistoryVersion(v => v + 1);
         draw();
     }
   };
@@ -275,12 +550,104 @@ function App() {
   const handleResetMask = () => {
       const ctx = getMaskContext();
       if(ctx && maskCanvasRef.current) {
-          ctx.clearRect(0,0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-          saveHistory();
+          const { width, height } = maskCanvasRef.current;
+          ctx.clearRect(0, 0, width, height);
+          maskHistoryRef.current?.markDirty(0, 0, width, height);
+          commitHistory();
           draw();
       }
   };
 
+  // Replaces the mask with the silhouette of the object layer, as one history step
+  const applyFootprint = (layer: ObjectLayer) => {
+      const ctx = getMaskContext();
+      if (!ctx || !maskCanvasRef.current || !objectImage) return;
+      const { width, height } = maskCanvasRef.current;
+      ctx.clearRect(0, 0, width, height);
+      renderFootprint(ctx, objectImage, objectImage.width, objectImage.height, layer);
+      maskHistoryRef.current?.markDirty(0, 0, width, height);
+      commitHistory();
+      draw();
+  };
+
+  // Load the object image whenever the source changes; a new object starts a new layer
+  useEffect(() => {
+    setObjectLayer(null);
+    setObjectImage(null);
+    if (!objectSource) return;
+    let cancelled = false;
+    loadImage(objectSource.data)
+      .then(img => { if (!cancelled) setObjectImage(img); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [objectSource]);
+
+  // Selecting the object tool drops the object into the middle of the image
+  useEffect(() => {
+    if (tool !== ToolType.OBJECT || objectLayer || !objectImage || !maskCanvasRef.current) return;
+    const { width, height } = maskCanvasRef.current;
+    const layer = createInitialLayer(objectImage.width, objectImage.height, width, height);
+    setObjectLayer(layer);
+    applyFootprint(layer);
+  }, [tool, objectImage, objectLayer, historyVersion]);
+
+  // The pre-placed layer belongs to a single mask; multi-region placement has no guide image,
+  // so the layer is dropped as soon as a second region exists
+  const canPlaceLayer = regions.length <= 1;
+  useEffect(() => {
+    if (canPlaceLayer) return;
+    setObjectLayer(null);
+    setTool(current => current === ToolType.OBJECT ? ToolType.BRUSH : current);
+  }, [canPlaceLayer]);
+
+  // --- Placement Regions ---
+
+  const selectRegion = (id: number) => {
+      const entry = regionMasksRef.current.get(id);
+      if (!entry) return;
+      cancelShape();
+      maskCanvasRef.current = entry.canvas;
+      maskHistoryRef.current = entry.history;
+      setActiveRegionId(id);
+      setHistoryVersion(v => v + 1);
+  };
+
+  // New regions start with the current object, which can be changed per region later
+  const handleAddRegion = () => {
+      const color = nextRegionColor(regions.map(r => r.color));
+      if (!color || !maskCanvasRef.current) return;
+      const id = ++regionIdRef.current;
+      regionMasksRef.current.set(id, createRegionMask(maskCanvasRef.current.width, maskCanvasRef.current.height));
+      // Regions without an object (e.g. the initial one) take the current object too
+      setRegions(prev => [
+          ...prev.map(r => r.objectSource || !objectSource ? r : { ...r, objectSource }),
+          { id, color: color.hex, objectSource: objectSource ?? undefined },
+      ]);
+      selectRegion(id);
+  };
+
+  const handleRemoveRegion = (id: number) => {
+      if (regions.length <= 1) return;
+      const remaining = regions.filter(r => r.id !== id);
+      regionMasksRef.current.delete(id);
+      setRegions(remaining);
+      if (id === activeRegionId) selectRegion(remaining[0].id);
+      else draw();
+  };
+
+  const handleAssignRegionObject = (id: number) => {
+      if (!objectSource) return;
+      setRegions(prev => prev.map(r => (r.id === id ? { ...r, objectSource } : r)));
+  };
+
+  // Back to a single, empty region after a multi-object placement was applied
+  const resetRegions = () => {
+      const [first, ...rest] = regions;
+      rest.forEach(r => regionMasksRef.current.delete(r.id));
+      setRegions([{ ...first, objectSource: undefined }]);
+      selectRegion(first.id);
+  };
+
   // --- Shortcuts ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -289,14 +656,35 @@ function App() {
       const key = e.key.toLowerCase();
 
       if (key === 'b') setTool(ToolType.BRUSH);
+      if (key === 'e') setTool(ToolType.ERASER);
+      if (key === 'r') setTool(ToolType.RECTANGLE);
+      if (key === 'o') setTool(ToolType.ELLIPSE);
+      if (key === 'l') setTool(ToolType.LASSO);
       if (key === 'h') setTool(ToolType.HAND);
+      if (key === 'v' && canPlaceLayer) setTool(ToolType.OBJECT);
+
+      // Lasso editing
+      if (shapeDraftRef.current?.kind === 'polygon') {
+        if (e.key === 'Enter') closeLasso(e.altKey);
+        if (e.key === 'Escape') cancelShape();
+        if (e.key === 'Backspace') {
+          shapeDraftRef.current.points.pop();
+          if (shapeDraftRef.current.points.length === 0) cancelShape();
+          else draw();
+        }
+      }
       if ((e.metaKey || e.ctrlKey) && key === 'z') {
         e.preventDefault();
-        handleUndo();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      }
+      if ((e.metaKey || e.ctrlKey) && key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
 
       // Brush resizing shortcuts
-      if (tool === ToolType.BRUSH) {
+      if (tool === ToolType.BRUSH || tool === ToolType.ERASER) {
         if (e.key === '[' || e.key === '-') {
           setBrushSize(prev => Math.max(5, prev - 5));
         }
@@ -307,9 +695,154 @@ function App() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [history, tool]);
+  }, [historyVersion, tool, draw, canPlaceLayer]);
+
+  // Switching tools abandons an unfinished shape
+  useEffect(() => {
+    cancelShape();
+  }, [tool]);
+
+  // Track the subtractive modifier for the cursor preview
+  useEffect(() => {
+    const handleModifier = (e: KeyboardEvent) => {
+      if (e.key === 'Alt') {
+        e.preventDefault(); // Keep the browser menu bar from taking focus
+        setIsAltHeld(e.type === 'keydown');
+      }
+    };
+    const handleBlur = () => setIsAltHeld(false);
+    window.addEventListener('keydown', handleModifier);
+    window.addEventListener('keyup', handleModifier);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleModifier);
+      window.removeEventListener('keyup', handleModifier);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // --- Document History ---
+
+  const startDocument = (image: string) => {
+      setEditSteps([{ id: ++editIdRef.current, operation: 'original', image, createdAt: Date.now() }]);
+      setEditIndex(0);
+      setVariants([]);
+      setAppState(AppState.IDLE);
+      maskCanvasRef.current = null; // Force reset mask canvas
+      maskHistoryRef.current = null;
+      setObjectLayer(null);
+      const regionId = ++regionIdRef.current;
+      regionMasksRef.current = new Map();
+      setRegions([{ id: regionId, color: REGION_COLORS[0].hex }]);
+      setActiveRegionId(regionId);
+      setHistoryVersion(v => v + 1);
+  };
+
+  // Applying a new edit discards the redo tail
+  const commitEdit = (step: Omit<EditStep, 'id' | 'createdAt'>) => {
+      setEditSteps(prev => [...prev.slice(0, editIndex + 1), { ...step, id: ++editIdRef.current, createdAt: Date.now() }]);
+      setEditIndex(editIndex + 1);
+  };
+
+  const jumpToEdit = (index: number) => {
+      if (appState !== AppState.IDLE || index < 0 || index >= editSteps.length) return;
+      setEditIndex(index);
+  };
+
+  // --- Project Files ---
+
+  const getProjectSnapshot = (): ProjectSnapshot => ({
+      editSteps,
+      editIndex,
+      regions: regions.map(region => ({
+          ...region,
+          mask: regionMasksRef.current.get(region.id)?.canvas.toDataURL('image/png') ?? '',
+      })),
+      activeRegionId,
+      objectSource,
+      textPrompt,
+      selectedModel,
+      maskPolicies,
+      instructions,
+      editPrompt,
+      outpaintSides,
+      outpaintAmount,
+  });
+
+  const handleSaveProject = () => {
+      if (!baseImage) return;
+      const blob = new Blob([serializeProject(getProjectSnapshot())], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `project-${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '')}${PROJECT_FILE_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // Rebuilds the mask canvases before the document state, so the mask initialization effect keeps them
+  const restoreProject = async (project: ProjectSnapshot) => {
+      const base = await loadImage(project.editSteps[project.editIndex].image);
+      const masks = new Map<number, { canvas: HTMLCanvasElement; history: MaskHistory }>();
+      for (const region of project.regions) {
+          const entry = createRegionMask(base.width, base.height);
+          if (region.mask) {
+              entry.canvas.getContext('2d')?.drawImage(await loadImage(region.mask), 0, 0, base.width, base.height);
+              entry.history.reset();
+          }
+          masks.set(region.id, entry);
+      }
+      const activeId = masks.has(project.activeRegionId) ? project.activeRegionId : project.regions[0].id;
+      const active = masks.get(activeId)!;
+
+      abortControllerRef.current?.abort();
+      regionMasksRef.current = masks;
+      maskCanvasRef.current = active.canvas;
+      maskHistoryRef.current = active.history;
+      editIdRef.current = Math.max(editIdRef.current, ...project.editSteps.map(step => step.id));
+      regionIdRef.current = Math.max(regionIdRef.current, ...project.regions.map(region => region.id));
+      pendingEditRef.current = null;
+
+      setEditSteps(project.editSteps);
+      setEditIndex(project.editIndex);
+      setRegions(project.regions.map(({ mask, ...region }) => region));
+      setActiveRegionId(activeId);
+      setObjectSource(project.objectSource ?? null);
+      setTextPrompt(project.textPrompt ?? '');
+      setSelectedModel(MODEL_OPTIONS.some(option => option.id === project.selectedModel) ? project.selectedModel : DEFAULT_MODEL_OPTION_ID);
+      if (project.maskPolicies) setMaskPolicies(project.maskPolicies);
+      setInstructions({ ...EMPTY_INSTRUCTIONS, ...project.instructions });
+      setEditPrompt(project.editPrompt ?? '');
+      setOutpaintSides(project.outpaintSides?.filter(side => OUTPAINT_SIDES.includes(side)) ?? DEFAULT_OUTPAINT_SIDES);
+      setOutpaintAmount(project.outpaintAmount ?? DEFAULT_OUTPAINT_AMOUNT);
+      setVariants([]);
+      setObjectLayer(null);
+      setAppState(AppState.IDLE);
+      setHistoryVersion(v => v + 1);
+      fitImageToScreen(base.width, base.height);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow opening the same file again
+      if (!file) return;
+      try {
+          await restoreProject(parseProject(await file.text()));
+          notify({ level: 'info', title: `已打开项目：${file.name}` });
+      } catch (err) {
+          console.error(err);
+          notify({
+              level: 'error',
+              title: '无法打开项目',
+              message: err instanceof ProjectFileError ? `文件格式有误：${err.message}` : '项目中的图片无法读取。'
+          });
+      }
+  };
 
   // --- File Handling ---
+  // File name without extension, used to name uploaded objects
+  const getDisplayName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, isBase: boolean = true) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -317,13 +850,9 @@ function App() {
       reader.onload = (evt) => {
         if (typeof evt.target?.result === 'string') {
           if (isBase) {
-            setBaseImage(evt.target.result);
-            setProcessedImage(null);
-            setAppState(AppState.IDLE);
-            maskCanvasRef.current = null; // Force reset mask canvas
-            setHistory([]);
+            startDocument(evt.target.result);
           } else {
-            setObjectSource({ type: 'image', data: evt.target.result, previewUrl: evt.target.result });
+            setObjectSource({ type: 'image', data: evt.target.result, previewUrl: evt.target.result, name: getDisplayName(file) });
           }
         }
       };
@@ -339,13 +868,9 @@ function App() {
         reader.onload = (evt) => {
             if (typeof evt.target?.result === 'string') {
                  if (isBase) {
-                    setBaseImage(evt.target.result);
-                    setProcessedImage(null);
-                    setAppState(AppState.IDLE);
-                    maskCanvasRef.current = null;
-                    setHistory([]);
+                    startDocument(evt.target.result);
                  } else {
-                    setObjectSource({ type: 'image', data: evt.target.result, previewUrl: evt.target.result });
+                    setObjectSource({ type: 'image', data: evt.target.result, previewUrl: evt.target.result, name: getDisplayName(file) });
                  }
             }
         };
@@ -353,133 +878,594 @@ function App() {
       }
   };
 
+  // --- Notifications ---
+
+  const notify = (notification: Omit<AppNotification, 'id'>) => {
+      const id = ++notificationIdRef.current;
+      setNotifications(prev => [...prev.slice(-4), { ...notification, id }]);
+      // Errors stay until dismissed, everything else fades out on its own
+      if (notification.level !== 'error') {
+          setTimeout(() => dismissNotification(id), 6000);
+      }
+  };
+
+  const dismissNotification = (id: number) => {
+      setNotifications(prev => prev.filter(n => n.id !== id));
+  };
+
+  const reportError = (error: unknown, operation: string, onRetry?: () => void) => {
+      const aiError = toAiServiceError(error);
+      const { title, hint } = AI_ERROR_MESSAGES[aiError.code];
+      notify({ level: 'error', title: `${operation}：${title}`, message: hint, onRetry });
+  };
+
   // --- AI Operations ---
   
   const handleGenerateObject = async () => {
       if (!textPrompt.trim()) return;
       setIsGeneratingObject(true);
+      const controller = new AbortController();
+      generateControllerRef.current = controller;
       try {
-          const base64Image = await generateImageFromText(textPrompt);
-          setObjectSource({ type: 'text', data: base64Image, previewUrl: base64Image });
+          const provider = getProvider(getModelOption(selectedModel).providerId);
+          const base64Image = await runWithRetry(
+              signal => provider.generate({ prompt: textPrompt, instruction: instructions.generate }, { signal }),
+              retryPolicy,
+              controller.signal
+          );
+          // Generated objects come on a plain white background, which can be keyed out right away.
+          // That step runs locally; when it fails the generated image is still usable as is.
+          let prepared: string | null = null;
+          try {
+              prepared = await prepareObjectImage(base64Image, { ...DEFAULT_BACKGROUND_OPTIONS, tolerance: backgroundTolerance });
+          } catch (err) {
+              console.error(err);
+              notify({ level: 'warning', title: '未能去除背景', message: '无法读取或处理生成的物体图片，已保留原图。' });
+          }
+          setObjectSource(prepared
+              ? { type: 'text', data: prepared, previewUrl: prepared, original: base64Image, name: textPrompt.trim() }
+              : { type: 'text', data: base64Image, previewUrl: base64Image, name: textPrompt.trim() });
       } catch (err) {
-          alert('生成物体失败，请重试');
+          if (isAbortError(err) || controller.signal.aborted) return; // Cancelled by the user
+          reportError(err, '生成物体失败', handleGenerateObject);
       } finally {
           setIsGeneratingObject(false);
+          if (generateControllerRef.current === controller) generateControllerRef.current = null;
       }
   };
 
-  const getMaskDataUrl = () => {
-    if (!maskCanvasRef.current) return null;
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = maskCanvasRef.current.width;
-    tempCanvas.height = maskCanvasRef.current.height;
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return null;
-    
-    // Draw the current mask (red + transparent)
-    ctx.drawImage(maskCanvasRef.current, 0, 0);
-    
-    // Create strict binary mask by manipulating pixel data
-    // This avoids anti-aliasing issues where edges might be gray
-    const imageData = ctx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-    const data = imageData.data;
-
-    for (let i = 0; i < data.length; i += 4) {
-      const alpha = data[i + 3];
-      // If pixel is even slightly visible (painted), make it solid White
-      if (alpha > 0) {
-        data[i] = 255;     // R
-        data[i + 1] = 255; // G
-        data[i + 2] = 255; // B
-        data[i + 3] = 255; // A (Fully Opaque)
-      } else {
-        // Otherwise make it solid Black
-        data[i] = 0;
-        data[i + 1] = 0;
-        data[i + 2] = 0;
-        data[i + 3] = 255; // A (Fully Opaque)
+  // --- Object Preparation ---
+
+  // Keys out the background and trims to the content; null when nothing (or everything) would be removed
+  const prepareObjectImage = async (src: string, options: BackgroundKeyOptions) => {
+      const { image, removedRatio } = await removeBackground(src, options);
+      if (removedRatio === 0 || removedRatio > 0.98) return null;
+      return trimToContent(image);
+  };
+
+  const applyPreparedObject = (source: ObjectSource, original: string, prepared: string | null) => {
+      if (!prepared) {
+          notify({ level: 'warning', title: '未能去除背景', message: '没有找到可去除的背景，或物体也会被一并去除。可调整容差或改用 AI 抠图。' });
+          return;
+      }
+      setObjectSource({ ...source, data: prepared, previewUrl: prepared, original });
+  };
+
+  const handleRemoveBackground = async () => {
+      if (!objectSource) return;
+      const source = objectSource;
+      const original = source.original ?? source.data;
+      setIsPreparingObject(true);
+      try {
+          applyPreparedObject(source, original, await prepareObjectImage(original, { ...DEFAULT_BACKGROUND_OPTIONS, tolerance: backgroundTolerance }));
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '去除背景失败', message: '无法读取物体图片' });
+      } finally {
+          setIsPreparingObject(false);
       }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-    
-    return tempCanvas.toDataURL('image/png');
+  };
+
+  // The model returns the object on a flat backdrop that is keyed out everywhere, including enclosed gaps
+  const handleSegmentObject = async () => {
+      if (!objectSource) return;
+      const source = objectSource;
+      const original = source.original ?? source.data;
+      setIsPreparingObject(true);
+      setIsSegmentingObject(true);
+      const controller = new AbortController();
+      segmentControllerRef.current = controller;
+      try {
+          const { providerId, model } = getModelOption(selectedModel);
+          const provider = getProvider(providerId);
+          const isolated = await runWithRetry(
+              signal => provider.isolate({ image: original, model }, { signal }),
+              retryPolicy,
+              controller.signal
+          );
+          applyPreparedObject(source, original, await prepareObjectImage(isolated, {
+              ...DEFAULT_BACKGROUND_OPTIONS,
+              tolerance: backgroundTolerance,
+              contiguous: false,
+          }));
+      } catch (err) {
+          if (isAbortError(err) || controller.signal.aborted) return; // Cancelled by the user
+          reportError(err, 'AI 抠图失败', handleSegmentObject);
+      } finally {
+          setIsPreparingObject(false);
+          setIsSegmentingObject(false);
+          if (segmentControllerRef.current === controller) segmentControllerRef.current = null;
+      }
+  };
+
+  const handleRestoreObject = () => {
+      if (!objectSource?.original) return;
+      const { original } = objectSource;
+      setObjectSource({ type: objectSource.type, data: original, previewUrl: original, name: objectSource.name });
+  };
+
+  // --- Object Library ---
+
+  useEffect(() => {
+    listLibraryObjects()
+      .then(setLibraryObjects)
+      .catch(err => {
+          console.error(err);
+          notify({ level: 'warning', title: '物体库不可用', message: '浏览器未能打开本地存储 (IndexedDB)，已保存的物体无法加载。' });
+      });
+  }, []);
+
+  const handleSaveToLibrary = async () => {
+      if (!objectSource) return;
+      try {
+          const entry = await addLibraryObject(objectSource, objectSource.name || '');
+          setLibraryObjects(prev => [entry, ...prev]);
+          notify({ level: 'info', title: `已保存到物体库：${entry.name}` });
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '保存到物体库失败', message: '本地存储空间可能不足。' });
+      }
+  };
+
+  const handleUpdateLibraryObject = async (entry: LibraryObject) => {
+      try {
+          const updated = await updateLibraryObject(entry);
+          setLibraryObjects(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '更新物体库失败' });
+      }
+  };
+
+  const handleDeleteLibraryObject = async (id: string) => {
+      try {
+          await deleteLibraryObject(id);
+          setLibraryObjects(prev => prev.filter(e => e.id !== id));
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '删除物体失败' });
+      }
+  };
+
+  // --- Prompt Templates ---
+
+  const handleSavePromptTemplate = (operation: PromptOperation, name: string, instruction: string) => {
+      try {
+          const template = savePromptTemplate(operation, name, instruction);
+          setPromptTemplates(listPromptTemplates());
+          notify({ level: 'info', title: `已保存模板：${template.name}` });
+          return template;
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '保存模板失败', message: '浏览器可能禁用了本地存储。' });
+          return null;
+      }
+  };
+
+  const handleDeletePromptTemplate = (id: string) => {
+      try {
+          deletePromptTemplate(id);
+          setPromptTemplates(listPromptTemplates());
+      } catch (err) {
+          console.error(err);
+          notify({ level: 'error', title: '删除模板失败' });
+      }
+  };
+
+  const getMaskDataUrl = (policy: MaskExportPolicy, maskCanvas: HTMLCanvasElement | null = maskCanvasRef.current) => {
+    return maskCanvas ? exportMask(maskCanvas, policy) : null;
+  };
+
+  // Fits the returned candidates to the original dimensions, measures (and optionally undoes)
+  // changes outside the mask, then enters COMPARING mode. `target` replaces the base image for
+  // operations that change the canvas (outpainting).
+  const showResults = async (
+      results: string[],
+      failures: unknown[],
+      signal: AbortSignal,
+      maskDataUrl: string,
+      target?: { image: string; width: number; height: number }
+  ) => {
+      if (!maskCanvasRef.current || !baseImage) return;
+      const { image: base, width, height } = target ?? { image: baseImage, width: maskCanvasRef.current.width, height: maskCanvasRef.current.height };
+      const fitted = await Promise.all(results.map(result => fitResultToSize(result, width, height)));
+      const protectedResults = await Promise.all(
+          fitted.map(result => protectUnmaskedArea(base, result.image, maskDataUrl, protectUnmasked))
+      );
+      if (signal.aborted) return;
+      warnAspectMismatch(fitted, width, height, '原图');
+
+      if (failures.length > 0) {
+          const { title } = AI_ERROR_MESSAGES[toAiServiceError(failures[0]).code];
+          notify({
+              level: 'warning',
+              title: `${failures.length} 个候选生成失败`,
+              message: `${title}，已保留其余 ${protectedResults.length} 个结果。`
+          });
+      }
+
+      setComparisonBase(target ? base : null);
+      setVariants(protectedResults.map(r => r.image));
+      setDriftReports(protectedResults.map(r => r.report));
+      setSelectedVariant(0);
+      setAppState(AppState.COMPARING);
+  };
+
+  // Never stretch silently: tell the user when the model changed the aspect ratio
+  const warnAspectMismatch = (fitted: FittedResult[], width: number, height: number, target: string) => {
+      const mismatch = fitted.find(result => result.aspectMismatch);
+      if (!mismatch) return;
+      notify({
+          level: 'warning',
+          title: `模型返回的图片比例与${target}不同`,
+          message: `返回 ${mismatch.sourceWidth}×${mismatch.sourceHeight}，${target} ${width}×${height}。` +
+              (mismatch.strategy === 'letterbox' ? '已裁掉填充边框后对齐。' : '已居中裁剪对齐，边缘内容可能有偏差。')
+      });
+  };
+
+  // Requests the candidates for either the whole image or, in auto crop mode, a padded crop around
+  // the mask at the model's preferred resolution; cropped results are stitched back into the full image
+  const requestCandidates = async (
+      base: string,
+      maskDataUrl: string,
+      signal: AbortSignal,
+      operation: (images: { baseImage: string; maskImage: string }, signal: AbortSignal) => Promise<string>
+  ) => {
+      const { preferredSize } = getModelOption(selectedModel);
+      const crop = autoCropRegion ? await cropForRegion(base, maskDataUrl, preferredSize || DEFAULT_PREFERRED_SIZE) : null;
+      const images = crop ? { baseImage: crop.baseImage, maskImage: crop.maskImage } : { baseImage: base, maskImage: maskDataUrl };
+
+      const { results, failures } = await runVariants(variantCount, s => operation(images, s), retryPolicy, signal);
+      if (!crop) return { results, failures };
+      const stitched = await Promise.all(results.map(result => stitchRegion(base, result, crop.region)));
+      if (!signal.aborted) warnAspectMismatch(stitched, crop.region.width, crop.region.height, '裁剪区域');
+      return { results: stitched.map(result => result.image), failures };
   };
 
   const handlePlaceObject = async () => {
+    if (regions.length > 1) return handlePlaceRegions();
     if (!baseImage || !objectSource || !maskCanvasRef.current) {
-        alert("请确保已有底图、蒙版区域和放置物体");
+        notify({ level: 'warning', title: '无法开始放置', message: '请确保已有底图、蒙版区域和放置物体' });
         return;
     }
     
     setAppState(AppState.PROCESSING);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-        const maskDataUrl = getMaskDataUrl();
+        const maskDataUrl = getMaskDataUrl(maskPolicies.place);
         if (!maskDataUrl) throw new Error("Failed to generate mask");
 
-        // Call API with selected model
-        const resultImage = await placeObjectInImage(baseImage, maskDataUrl, objectSource.data, selectedModel);
+        // Call the provider behind the selected model
+        const { providerId, model } = getModelOption(selectedModel);
+        const provider = getProvider(providerId);
+        const instruction = instructions.place.trim() || undefined;
+        pendingEditRef.current = { operation: 'place', mask: maskDataUrl, objectSource, model: selectedModel, instruction };
+
+        // A pre-placed object is flattened into a guide image; the model then only harmonizes it
+        const guideImage = objectLayer && objectImage ? await renderGuideComposite(baseImage, objectImage, objectLayer) : null;
+        const { results, failures } = await requestCandidates(
+            guideImage ?? baseImage,
+            maskDataUrl,
+            controller.signal,
+            (images, signal) => guideImage
+                ? provider.harmonize({ guideImage: images.baseImage, maskImage: images.maskImage, objectImage: objectSource.data, model, instruction }, { signal })
+                : provider.place({ ...images, objectImage: objectSource.data, model, instruction }, { signal })
+        );
         
-        // Resize to match original dimensions
-        const resizedImage = await resizeImage(resultImage, maskCanvasRef.current.width, maskCanvasRef.current.height);
+        await showResults(results, failures, controller.signal, maskDataUrl);
+
+    } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return; // Cancelled by the user
+        console.error(error);
+        reportError(error, '放置失败', handlePlaceObject);
+        setAppState(AppState.IDLE);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  // All regions are submitted together; providers without multi-region support place them one by one
+  const handlePlaceRegions = async () => {
+    const missing = regions.findIndex(r => !r.objectSource || isMaskEmpty(regionMasksRef.current.get(r.id)?.canvas));
+    if (!baseImage || missing >= 0) {
+        notify({ level: 'warning', title: '无法开始放置', message: `区域 ${missing + 1} 还没有涂抹蒙版或指定物体` });
+        return;
+    }
+
+    setAppState(AppState.PROCESSING);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-        setProcessedImage(resizedImage);
-        setAppState(AppState.COMPARING);
+    try {
+        const inputs: PlaceRegionInput[] = regions.map(region => {
+            const maskImage = getMaskDataUrl(maskPolicies.place, regionMasksRef.current.get(region.id)?.canvas ?? null);
+            if (!maskImage) throw new Error("Failed to generate mask");
+            return {
+                maskImage,
+                objectImage: region.objectSource!.data,
+                color: region.color,
+                colorName: getRegionColor(region.color).name,
+            };
+        });
+        const [regionMap, maskDataUrl] = await Promise.all([
+            renderRegionMap(inputs.map(i => i.maskImage), inputs.map(i => getRegionColor(i.color))),
+            unionMasks(inputs.map(i => i.maskImage)),
+        ]);
+
+        const { providerId, model } = getModelOption(selectedModel);
+        const provider = getProvider(providerId);
+        if (!provider.placeMany) {
+            notify({ level: 'info', title: '当前模型不支持一次放置多个物体', message: `将按区域依次处理 ${inputs.length} 次。` });
+        }
+        const instruction = instructions.place.trim() || undefined;
+        pendingEditRef.current = { operation: 'place', mask: maskDataUrl, model: selectedModel, regions: inputs, instruction };
+        // Regions can be far apart, so the whole image is sent instead of a crop
+        const { results, failures } = await runVariants(
+            variantCount,
+            signal => placeRegions(provider, { baseImage, regionMap, regions: inputs, model, instruction }, { signal }),
+            retryPolicy,
+            controller.signal
+        );
+
+        await showResults(results, failures, controller.signal, maskDataUrl);
 
     } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return; // Cancelled by the user
         console.error(error);
-        alert("放置失败，请检查网络或 Key");
+        reportError(error, '放置失败', handlePlaceRegions);
         setAppState(AppState.IDLE);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
+  const isMaskEmpty = (maskCanvas?: HTMLCanvasElement) => {
+    const data = maskCanvas?.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, maskCanvas.width, maskCanvas.height).data;
+    if (!data) return true;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+  };
+
   const handleErase = async () => {
     if (!baseImage || !maskCanvasRef.current) {
-        alert("请确保已有底图和涂抹的蒙版区域");
+        notify({ level: 'warning', title: '无法开始擦除', message: '请确保已有底图和涂抹的蒙版区域' });
         return;
     }
 
     setAppState(AppState.PROCESSING);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
-        const maskDataUrl = getMaskDataUrl();
+        const maskDataUrl = getMaskDataUrl(maskPolicies.erase);
         if (!maskDataUrl) throw new Error("Failed to generate mask");
 
-        // Call API with selected model
-        const resultImage = await eraseObjectInImage(baseImage, maskDataUrl, selectedModel);
+        // Call the provider behind the selected model
+        const { providerId, model } = getModelOption(selectedModel);
+        const provider = getProvider(providerId);
+        const instruction = instructions.erase.trim() || undefined;
+        pendingEditRef.current = { operation: 'erase', mask: maskDataUrl, model: selectedModel, instruction };
+        const { results, failures } = await requestCandidates(
+            baseImage,
+            maskDataUrl,
+            controller.signal,
+            (images, signal) => provider.erase({ ...images, model, instruction }, { signal })
+        );
         
-        // Resize to match original dimensions
-        const resizedImage = await resizeImage(resultImage, maskCanvasRef.current.width, maskCanvasRef.current.height);
+        await showResults(results, failures, controller.signal, maskDataUrl);
+
+    } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return; // Cancelled by the user
+        console.error(error);
+        reportError(error, '擦除失败', handleErase);
+        setAppState(AppState.IDLE);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  // Replace and restyle repaint the masked area from the description; they use the placement mask policy
+  const handlePromptEdit = async (operation: 'replace' | 'restyle') => {
+    const label = operation === 'replace' ? '替换' : '改风格';
+    const prompt = editPrompt.trim();
+    if (!baseImage || !maskCanvasRef.current || isMaskEmpty(maskCanvasRef.current) || !prompt) {
+        notify({ level: 'warning', title: `无法开始${label}`, message: '请先涂抹蒙版区域，并在"替换 / 改风格 / 扩图"中填写描述' });
+        return;
+    }
+
+    setAppState(AppState.PROCESSING);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const maskDataUrl = getMaskDataUrl(maskPolicies.place);
+        if (!maskDataUrl) throw new Error("Failed to generate mask");
 
-        setProcessedImage(resizedImage);
-        setAppState(AppState.COMPARING);
+        const { providerId, model } = getModelOption(selectedModel);
+        const provider = getProvider(providerId);
+        const instruction = instructions[operation].trim() || undefined;
+        pendingEditRef.current = { operation, mask: maskDataUrl, model: selectedModel, prompt, instruction };
+        const { results, failures } = await requestCandidates(
+            baseImage,
+            maskDataUrl,
+            controller.signal,
+            (images, signal) => operation === 'replace'
+                ? provider.replace({ ...images, prompt, model, instruction }, { signal })
+                : provider.restyle({ ...images, prompt, model, instruction }, { signal })
+        );
+
+        await showResults(results, failures, controller.signal, maskDataUrl);
 
     } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return; // Cancelled by the user
         console.error(error);
-        alert("擦除失败，请检查网络或 Key");
+        reportError(error, `${label}失败`, () => handlePromptEdit(operation));
         setAppState(AppState.IDLE);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
+  // Expands the canvas on the chosen sides; the result replaces the image with a larger one
+  const handleOutpaint = async () => {
+    if (!baseImage || !maskCanvasRef.current || outpaintSides.length === 0) {
+        notify({ level: 'warning', title: '无法开始扩图', message: '请确保已有底图，并至少选择一个扩图方向' });
+        return;
+    }
+
+    setAppState(AppState.PROCESSING);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+        const { width, height } = maskCanvasRef.current;
+        const expanded = await expandCanvas(baseImage, getOutpaintPadding(width, height, outpaintSides, outpaintAmount));
+        const prompt = editPrompt.trim() || undefined;
+
+        const { providerId, model } = getModelOption(selectedModel);
+        const provider = getProvider(providerId);
+        const instruction = instructions.outpaint.trim() || undefined;
+        pendingEditRef.current = { operation: 'outpaint', mask: expanded.maskImage, model: selectedModel, prompt, instruction };
+        // The new area runs along the edges, so the whole canvas is sent instead of a crop
+        const { results, failures } = await runVariants(
+            variantCount,
+            signal => provider.outpaint({ baseImage: expanded.baseImage, maskImage: expanded.maskImage, prompt, model, instruction }, { signal }),
+            retryPolicy,
+            controller.signal
+        );
+
+        await showResults(results, failures, controller.signal, expanded.maskImage, {
+            image: expanded.baseImage,
+            width: expanded.width,
+            height: expanded.height,
+        });
+
+    } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return; // Cancelled by the user
+        console.error(error);
+        reportError(error, '扩图失败', handleOutpaint);
+        setAppState(AppState.IDLE);
+    } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  // --- Batch Processing ---
+
+  const getBatchSharedMask = (operation: BatchOperation) => {
+      if (isMaskEmpty(maskCanvasRef.current ?? undefined)) return null;
+      return getMaskDataUrl(maskPolicies[operation]);
+  };
+
+  const createBatchJob = (operation: BatchOperation): BatchJob | null => {
+      if (operation === 'place' && !objectSource) return null;
+      const { providerId, model, preferredSize } = getModelOption(selectedModel);
+      return {
+          operation,
+          provider: getProvider(providerId),
+          model,
+          preferredSize: preferredSize || DEFAULT_PREFERRED_SIZE,
+          objectImage: objectSource?.data,
+          instruction: instructions[operation].trim() || undefined,
+          retryPolicy,
+          protectUnmasked,
+          autoCropRegion,
+      };
+  };
+
+  const handleCancelProcessing = () => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+      setAppState(AppState.IDLE);
+  };
+
   const applyChanges = () => {
-      if (processedImage) {
-          setBaseImage(processedImage);
-          setProcessedImage(null);
+      if (processedImage && pendingEditRef.current) {
+          commitEdit({ ...pendingEditRef.current, image: processedImage });
+          pendingEditRef.current = null;
+          setVariants([]);
           setAppState(AppState.IDLE);
+          setObjectLayer(null);
+          if (tool === ToolType.OBJECT) setTool(ToolType.BRUSH); // The object is part of the image now
+          if (regions.length > 1) resetRegions();
           handleResetMask();
       }
   };
 
   return (
     <div className="flex flex-col h-screen w-screen bg-[#18181b] text-gray-100 font-sans">
+
+      <NotificationPanel notifications={notifications} onDismiss={dismissNotification} />
+
+      {showBatch && (
+        <BatchPanel 
+          getSharedMask={getBatchSharedMask}
+          createJob={createBatchJob}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
       
       {/* Header */}
       <header className="h-14 flex items-center justify-between px-6 bg-[#27272a] border-b border-[#3f3f46] shrink-0 z-20">
         <h1 className="text-lg font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
           图像物体放置 V1.0 <span className="text-xs text-gray-400 font-normal">By Gambey</span>
         </h1>
-        <div className="text-xs text-gray-500">React + Gemini 2.5 Flash Image</div>
+        <div className="flex items-center gap-3">
+          <input 
+            type="file" 
+            id="project-open" 
+            className="hidden" 
+            accept={`${PROJECT_FILE_EXTENSION},application/json`} 
+            onChange={handleOpenProject} 
+          />
+          <label 
+            htmlFor="project-open" 
+            className={`px-3 py-1.5 rounded-md border border-[#52525b] text-xs text-gray-300 hover:bg-[#3f3f46] cursor-pointer transition-colors ${appState !== AppState.IDLE ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            打开项目
+          </label>
+          <button 
+            onClick={handleSaveProject}
+            disabled={!baseImage || appState !== AppState.IDLE}
+            className="px-3 py-1.5 rounded-md border border-[#52525b] text-xs text-gray-300 hover:bg-[#3f3f46] disabled:opacity-50 transition-colors"
+            title="保存底图、蒙版、物体、提示词、模型和编辑历史，便于交接"
+          >
+            保存项目
+          </button>
+          <button 
+            onClick={() => setShowBatch(true)}
+            disabled={appState !== AppState.IDLE}
+            className="px-3 py-1.5 rounded-md border border-[#52525b] text-xs text-gray-300 hover:bg-[#3f3f46] disabled:opacity-50 transition-colors"
+            title="把当前蒙版和物体批量应用到多张图片"
+          >
+            批量处理
+          </button>
+          <div className="text-xs text-gray-500">React + Gemini 2.5 Flash Image</div>
+        </div>
       </header>
 
       {/* Main Content */}
@@ -503,6 +1489,12 @@ function App() {
                      >
                          文字生成
                      </button>
+                     <button 
+                        onClick={() => setObjectMode('library')}
+                        className={`flex-1 text-xs py-2 rounded-md transition-colors ${objectMode === 'library' ? 'bg-[#3f3f46] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                     >
+                         物体库{libraryObjects.length > 0 ? ` (${libraryObjects.length})` : ''}
+                     </button>
                  </div>
 
                  {objectMode === 'upload' ? (
@@ -515,6 +1507,13 @@ function App() {
                          <UploadIcon />
                          <span className="mt-2 text-xs text-gray-400 text-center">点击或拖入图片<br/>作为放置对象</span>
                      </div>
+                 ) : objectMode === 'library' ? (
+                     <ObjectLibraryPanel 
+                        entries={libraryObjects}
+                        onSelect={(entry) => setObjectSource(entry.source)}
+                        onUpdate={handleUpdateLibraryObject}
+                        onDelete={handleDeleteLibraryObject}
+                     />
                  ) : (
                      <div className="space-y-2">
                          <textarea 
@@ -523,28 +1522,52 @@ function App() {
                             placeholder="描述物体，例如：一个红色的苹果"
                             className="w-full h-24 bg-[#18181b] border border-[#52525b] rounded-md p-2 text-sm text-gray-200 focus:outline-none focus:border-blue-500 resize-none"
                          />
-                         <button 
-                            onClick={handleGenerateObject}
-                            disabled={isGeneratingObject || !textPrompt}
-                            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs py-2 rounded-md transition-colors"
-                         >
-                             {isGeneratingObject ? '生成中...' : <><MagicIcon /> 生成物体</>}
-                         </button>
+                         <div className="flex gap-2">
+                             <button 
+                                onClick={handleGenerateObject}
+                                disabled={isGeneratingObject || !textPrompt}
+                                className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs py-2 rounded-md transition-colors"
+                             >
+                                 {isGeneratingObject ? '生成中...' : <><MagicIcon /> 生成物体</>}
+                             </button>
+                             {isGeneratingObject && (
+                                 <button 
+                                    onClick={() => generateControllerRef.current?.abort()}
+                                    className="px-3 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] text-xs transition-colors"
+                                 >
+                                     取消
+                                 </button>
+                             )}
+                         </div>
                      </div>
                  )}
 
                  {objectSource && (
-                     <div className="relative group">
-                         <div className="text-xs text-gray-400 mb-1">当前选择:</div>
-                         <img src={objectSource.previewUrl} alt="Object" className="w-full h-40 object-contain bg-[#18181b] rounded-md border border-[#52525b]" />
-                         <button 
-                            onClick={() => setObjectSource(null)}
-                            className="absolute top-2 right-2 bg-red-500/80 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                         >
-                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
-                         </button>
-                     </div>
+                     <ObjectPrepPanel 
+                        source={objectSource}
+                        tolerance={backgroundTolerance}
+                        busy={isPreparingObject}
+                        segmenting={isSegmentingObject}
+                        onToleranceChange={setBackgroundTolerance}
+                        onRemoveLocal={handleRemoveBackground}
+                        onRemoveAi={handleSegmentObject}
+                        onCancelAi={() => segmentControllerRef.current?.abort()}
+                        onRestore={handleRestoreObject}
+                        onClear={() => setObjectSource(null)}
+                        onSave={handleSaveToLibrary}
+                     />
                  )}
+
+                 <RegionPanel 
+                    regions={regions}
+                    activeId={activeRegionId}
+                    canAssign={!!objectSource}
+                    disabled={!baseImage || appState !== AppState.IDLE}
+                    onSelect={selectRegion}
+                    onAdd={handleAddRegion}
+                    onRemove={handleRemoveRegion}
+                    onAssign={handleAssignRegionObject}
+                 />
              </div>
 
              <div className="h-px bg-[#3f3f46]"></div>
@@ -553,11 +1576,108 @@ function App() {
                 <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">2. 操作步骤</h2>
                 <p className="text-xs text-gray-400 leading-relaxed">
                     1. 确保已选择"待放置物体"。<br/>
-                    2. 在右侧画布上用画笔涂抹出放置区域。<br/>
+                    2. 在右侧画布上用画笔涂抹出放置区域，或用"摆放物体"工具 (V) 直接拖动、缩放、旋转物体，蒙版会按物体轮廓自动生成。<br/>
                     3. 点击下方"开始放置"按钮。<br/>
-                    4. 如需擦除，直接涂抹后点击"擦除"。
+                    4. 如需擦除，直接涂抹后点击"擦除"。<br/>
+                    5. 填写描述后可"替换"或"改风格"涂抹区域，或用"扩图"向四周扩展画面。
                 </p>
              </div>
+
+             <div className="h-px bg-[#3f3f46]"></div>
+
+             <div className="space-y-3">
+                <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">3. 附加指令</h2>
+                <PromptPanel 
+                    instructions={instructions}
+                    templates={promptTemplates}
+                    onChange={(operation, instruction) => setInstructions(prev => ({ ...prev, [operation]: instruction }))}
+                    onSaveTemplate={handleSavePromptTemplate}
+                    onDeleteTemplate={handleDeletePromptTemplate}
+                />
+             </div>
+
+             <div className="h-px bg-[#3f3f46]"></div>
+
+             <div className="space-y-3">
+                <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">4. 替换 / 改风格 / 扩图</h2>
+                <EditOptionsPanel 
+                    prompt={editPrompt}
+                    outpaintSides={outpaintSides}
+                    outpaintAmount={outpaintAmount}
+                    onPromptChange={setEditPrompt}
+                    onOutpaintSidesChange={setOutpaintSides}
+                    onOutpaintAmountChange={setOutpaintAmount}
+                />
+             </div>
+
+             <div className="h-px bg-[#3f3f46]"></div>
+
+             <div className="space-y-3">
+                <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">5. 蒙版导出</h2>
+                <MaskPolicyPanel 
+                    policies={maskPolicies} 
+                    onChange={(operation, policy) => setMaskPolicies(prev => ({ ...prev, [operation]: policy }))} 
+                />
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                    <input 
+                        type="checkbox" 
+                        checked={protectUnmasked} 
+                        onChange={(e) => setProtectUnmasked(e.target.checked)} 
+                        className="accent-blue-500"
+                    />
+                    锁定蒙版外像素（本地合成，仅蒙版内可被修改）
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                    <input 
+                        type="checkbox" 
+                        checked={autoCropRegion} 
+                        onChange={(e) => setAutoCropRegion(e.target.checked)} 
+                        className="accent-blue-500"
+                    />
+                    大图小区域时自动裁剪局部发送（保留细节、节省用量）
+                </label>
+             </div>
+
+             <div className="h-px bg-[#3f3f46]"></div>
+
+             <div className="space-y-3">
+                <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">6. 请求设置</h2>
+                <label className="flex items-center justify-between text-xs text-gray-400">
+                    超时时间 (秒)
+                    <input 
+                        type="number" 
+                        min="10" 
+                        max="600" 
+                        value={retryPolicy.timeoutMs / 1000}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, timeoutMs: Math.max(10, Number(e.target.value) || 0) * 1000 }))}
+                        className="w-20 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+                    />
+                </label>
+                <label className="flex items-center justify-between text-xs text-gray-400">
+                    失败重试次数
+                    <input 
+                        type="number" 
+                        min="0" 
+                        max="5" 
+                        value={retryPolicy.maxRetries}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) }))}
+                        className="w-20 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+                    />
+                </label>
+                <p className="text-xs text-gray-500">遇到限流 (429) 或服务端错误 (5xx) 时按指数退避自动重试。</p>
+             </div>
+
+             {editSteps.length > 0 && (
+                <>
+                    <div className="h-px bg-[#3f3f46]"></div>
+                    <HistoryPanel 
+                        steps={editSteps} 
+                        currentIndex={editIndex} 
+                        disabled={appState !== AppState.IDLE} 
+                        onJump={jumpToEdit} 
+                    />
+                </>
+             )}
         </div>
 
         {/* Center Canvas */}
@@ -570,33 +1690,38 @@ function App() {
           {/* Custom Cursor */}
           <div 
               ref={cursorRef}
-              className="fixed pointer-events-none rounded-full bg-yellow-400/50 -translate-x-1/2 -translate-y-1/2 z-50 transition-none"
+              className={`fixed pointer-events-none rounded-full -translate-x-1/2 -translate-y-1/2 z-50 transition-none ${
+                  (tool === ToolType.ERASER || isAltHeld) ? 'border-2 border-white/80 bg-white/10' : 'bg-yellow-400/50'
+              }`}
               style={{
                   width: brushSize * transform.k,
                   height: brushSize * transform.k,
-                  display: (tool === ToolType.BRUSH && isHoveringCanvas && appState === AppState.IDLE) ? 'block' : 'none',
+                  display: (isPaintTool && isHoveringCanvas && appState === AppState.IDLE) ? 'block' : 'none',
                   willChange: 'left, top, width, height'
               }}
           />
 
           {appState === AppState.COMPARING && baseImage && processedImage ? (
-             <ComparisonSlider beforeImage={baseImage} afterImage={processedImage} />
+             <>
+                <ComparisonSlider beforeImage={comparisonBase ?? baseImage} afterImage={processedImage} />
+                <VariantPicker variants={variants} selectedIndex={selectedVariant} onSelect={setSelectedVariant} />
+             </>
           ) : (
             <>
                 <canvas 
                     ref={canvasRef}
                     className="block"
-                    onMouseDown={handleMouseDown}
-                    onMouseMove={handleMouseMove}
-                    onMouseUp={handleMouseUp}
-                    onMouseLeave={(e) => {
-                        handleMouseUp();
-                        setIsHoveringCanvas(false);
-                    }}
-                    onMouseEnter={() => setIsHoveringCanvas(true)}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onPointerLeave={() => setIsHoveringCanvas(false)}
+                    onPointerEnter={(e) => setIsHoveringCanvas(e.pointerType !== 'touch')}
+                    onDoubleClick={(e) => tool === ToolType.LASSO && closeLasso(e.altKey)}
                     onWheel={handleWheel}
                     style={{ 
-                        cursor: tool === ToolType.HAND ? 'grab' : (tool === ToolType.BRUSH ? 'none' : 'crosshair') 
+                        cursor: tool === ToolType.HAND ? 'grab' : tool === ToolType.OBJECT ? 'move' : (isPaintTool ? 'none' : 'crosshair'),
+                        touchAction: 'none' // Gestures are handled by the canvas itself
                     }}
                 />
                 {!baseImage && (
@@ -612,7 +1737,13 @@ function App() {
               <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-50 backdrop-blur-sm">
                   <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                   <div className="text-white text-lg font-medium animate-pulse">AI 正在努力处理中...</div>
-                  <div className="text-gray-400 text-sm mt-2">模型: {selectedModel}</div>
+                  <div className="text-gray-400 text-sm mt-2">模型: {getModelOption(selectedModel).label}</div>
+                  <button 
+                      onClick={handleCancelProcessing}
+                      className="mt-6 px-4 py-2 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] text-sm transition-colors"
+                  >
+                      取消
+                  </button>
               </div>
           )}
         </div>
@@ -646,10 +1777,38 @@ function App() {
                         <button 
                             onClick={() => setTool(ToolType.BRUSH)}
                             className={`p-2 rounded ${tool === ToolType.BRUSH ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
-                            title="画笔 (B)"
+                            title="画笔 (B，按住 Alt 擦除蒙版)"
                         >
                             <BrushIcon />
                         </button>
+                        <button 
+                            onClick={() => setTool(ToolType.ERASER)}
+                            className={`p-2 rounded ${tool === ToolType.ERASER ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="橡皮擦 (E)"
+                        >
+                            <EraserIcon />
+                        </button>
+                        <button 
+                            onClick={() => setTool(ToolType.RECTANGLE)}
+                            className={`p-2 rounded ${tool === ToolType.RECTANGLE ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="矩形选区 (R，按住 Shift 为正方形)"
+                        >
+                            <RectangleIcon />
+                        </button>
+                        <button 
+                            onClick={() => setTool(ToolType.ELLIPSE)}
+                            className={`p-2 rounded ${tool === ToolType.ELLIPSE ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="椭圆选区 (O，按住 Shift 为圆形)"
+                        >
+                            <EllipseIcon />
+                        </button>
+                        <button 
+                            onClick={() => setTool(ToolType.LASSO)}
+                            className={`p-2 rounded ${tool === ToolType.LASSO ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title="多边形套索 (L，单击添加顶点，双击或回车闭合，Esc 取消)"
+                        >
+                            <LassoIcon />
+                        </button>
                         <button 
                             onClick={() => setTool(ToolType.HAND)}
                             className={`p-2 rounded ${tool === ToolType.HAND ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
@@ -657,6 +1816,16 @@ function App() {
                         >
                             <HandIcon />
                         </button>
+                        <button 
+                            onClick={() => setTool(ToolType.OBJECT)}
+                            disabled={!objectSource || !canPlaceLayer}
+                            className={`p-2 rounded disabled:opacity-30 ${tool === ToolType.OBJECT ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            title={canPlaceLayer
+                                ? "摆放物体 (V，拖动移动，拖角缩放，拖顶部圆点旋转，按住 Shift 以 15° 步进)"
+                                : "有多个区域时无法手动摆放物体，请用蒙版标出各区域"}
+                        >
+                            <ObjectIcon />
+                        </button>
                     </div>
 
                     <div className="flex items-center gap-2 ml-4">
@@ -671,18 +1840,68 @@ function App() {
                         />
                     </div>
 
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500">平滑</span>
+                        <input 
+                            type="range" 
+                            min="0" 
+                            max="0.9" 
+                            step="0.1"
+                            value={brushSmoothing} 
+                            onChange={(e) => setBrushSmoothing(parseFloat(e.target.value))}
+                            className="w-16 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            title="笔触平滑程度"
+                        />
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500">硬度</span>
+                        <input 
+                            type="range" 
+                            min="0" 
+                            max="1" 
+                            step="0.1"
+                            value={brushHardness} 
+                            onChange={(e) => setBrushHardness(parseFloat(e.target.value))}
+                            className="w-16 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            title="笔刷边缘硬度，越低边缘越柔和；发送给模型时需将蒙版导出设为柔边"
+                        />
+                    </div>
+
                     <div className="flex gap-2 ml-4">
-                        <button onClick={handleUndo} className="p-2 text-gray-400 hover:text-white transition-colors" title="撤销 (Ctrl+Z)">
+                        <button 
+                            onClick={handleUndo} 
+                            disabled={!maskHistoryRef.current?.canUndo()}
+                            className="p-2 text-gray-400 hover:text-white disabled:opacity-30 transition-colors" 
+                            title="撤销 (Ctrl+Z)"
+                        >
                             <UndoIcon />
                         </button>
+                        <button 
+                            onClick={handleRedo} 
+                            disabled={!maskHistoryRef.current?.canRedo()}
+                            className="p-2 text-gray-400 hover:text-white disabled:opacity-30 transition-colors" 
+                            title="重做 (Ctrl+Shift+Z / Ctrl+Y)"
+                        >
+                            <RedoIcon />
+                        </button>
                         <button onClick={handleResetMask} className="p-2 text-gray-400 hover:text-white transition-colors" title="重置涂抹">
                             <ResetIcon />
                         </button>
                     </div>
                 </>
              ) : (
-                 <div className="text-sm text-gray-300">
-                     对比模式：拖拽滑块查看效果
+                 <div className="flex items-center gap-4 text-sm text-gray-300">
+                     <span>对比模式：拖拽滑块查看效果</span>
+                     {driftReports[selectedVariant] && (
+                         <span 
+                             className={`text-xs ${driftReports[selectedVariant].driftRatio > 0.05 ? 'text-yellow-400' : 'text-gray-500'}`}
+                             title="模型在蒙版外（应保持不变的区域）改动的像素比例"
+                         >
+                             蒙版外改动 {(driftReports[selectedVariant].driftRatio * 100).toFixed(1)}%
+                             {driftReports[selectedVariant].enforced ? '（已还原）' : ''}
+                         </span>
+                     )}
                  </div>
              )}
           </div>
@@ -692,7 +1911,7 @@ function App() {
               {appState === AppState.COMPARING ? (
                   <>
                     <button 
-                        onClick={() => { setAppState(AppState.IDLE); setProcessedImage(null); }}
+                        onClick={() => { setAppState(AppState.IDLE); setVariants([]); }}
                         className="px-4 py-2 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] text-sm transition-colors"
                     >
                         放弃
@@ -719,10 +1938,46 @@ function App() {
                         className="bg-[#3f3f46] hover:bg-[#52525b] text-white text-xs px-3 py-2 rounded border border-[#52525b] outline-none cursor-pointer"
                         title="选择 AI 模型"
                     >
-                        <option value="gemini-3-pro-image-preview">Gemini 3 Pro (高精度)</option>
-                        <option value="gemini-2.5-flash-image">Gemini 2.5 Flash (快速)</option>
+                        {MODEL_OPTIONS.map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                    </select>
+
+                    <select
+                        value={variantCount}
+                        onChange={(e) => setVariantCount(parseInt(e.target.value))}
+                        className="bg-[#3f3f46] hover:bg-[#52525b] text-white text-xs px-3 py-2 rounded border border-[#52525b] outline-none cursor-pointer"
+                        title="每次生成的候选结果数量"
+                    >
+                        {[1, 2, 3, 4].map(count => (
+                            <option key={count} value={count}>{count} 个候选</option>
+                        ))}
                     </select>
 
+                    <button 
+                        onClick={handleOutpaint}
+                        disabled={!baseImage || outpaintSides.length === 0}
+                        className="px-4 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] disabled:opacity-50 text-white font-medium text-sm transition-colors border border-[#52525b]"
+                        title="向所选方向扩展画布并补全画面"
+                    >
+                        扩图
+                    </button>
+                    <button 
+                        onClick={() => handlePromptEdit('restyle')}
+                        disabled={!baseImage || !editPrompt.trim()}
+                        className="px-4 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] disabled:opacity-50 text-white font-medium text-sm transition-colors border border-[#52525b]"
+                        title="按描述更改蒙版区域的材质或颜色，保留形状"
+                    >
+                        改风格
+                    </button>
+                    <button 
+                        onClick={() => handlePromptEdit('replace')}
+                        disabled={!baseImage || !editPrompt.trim()}
+                        className="px-4 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] disabled:opacity-50 text-white font-medium text-sm transition-colors border border-[#52525b]"
+                        title="按描述重绘蒙版区域，无需物体图片"
+                    >
+                        替换
+                    </button>
                     <button 
                         onClick={handleErase}
                         disabled={!baseImage}
@@ -732,7 +1987,7 @@ function App() {
                     </button>
                     <button 
                         onClick={handlePlaceObject}
-                        disabled={!baseImage || !objectSource}
+                        disabled={!baseImage || (regions.length > 1 ? regions.some(r => !r.objectSource) : !objectSource)}
                         className="px-6 py-2 rounded-md bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-500 text-white font-medium text-sm transition-all shadow-lg disabled:shadow-none"
                     >
                         开始放置
@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, so no separate build step is needed
+import { tsImport } from 'tsx/esm/api';
+
+await tsImport('../cli/object-placer.ts', import.meta.url);
@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import { MaskExportPolicy } from '../types';
+import { applyMaskPolicy } from '../utils/mask';
+import { detectLetterbox, aspectDiffers, FittedResult } from '../utils/image';
+import { blendByMask, measureDrift } from '../utils/composite';
+
+// Node counterparts of the browser canvas helpers, built on sharp. Pixel work reuses the pure
+// RGBA functions from utils/ so the CLI produces the same masks and composites as the editor.
+
+export interface RawImage {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+}
+
+const toRaw = async (image: sharp.Sharp): Promise<RawImage> => {
+  const { data, info } = await image.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+};
+
+const fromRaw = (image: RawImage) => {
+  return sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+};
+
+export const toDataUrl = async (image: RawImage): Promise<string> => {
+  const buffer = await fromRaw(image).png().toBuffer();
+  return `data:image/png;base64,${buffer.toString('base64')}`;
+};
+
+export const fromDataUrl = (dataUrl: string): Promise<RawImage> => {
+  return toRaw(sharp(Buffer.from(dataUrl.split(',')[1] ?? '', 'base64')));
+};
+
+// EXIF orientation is applied so the pixels match what image viewers show
+export const readImage = (path: string): Promise<RawImage> => toRaw(sharp(path).rotate());
+
+// Output format follows the file extension
+export const writeImage = async (path: string, image: RawImage): Promise<void> => {
+  await fromRaw(image).toFile(path);
+};
+
+// Reads a mask file and exports it like the editor does (see getMaskDataUrl in App.tsx).
+// Accepts White-on-Black masks as well as painted masks (colour on transparent): both are turned
+// into the editor's "alpha = selection" form first and then run through the same export policy.
+export const readMask = async (path: string, width: number, height: number, policy: MaskExportPolicy): Promise<RawImage> => {
+  const mask = await toRaw(sharp(path).rotate().resize(width, height, { fit: 'fill' }));
+  const { data } = mask;
+  for (let i = 0; i < data.length; i += 4) {
+    const weight = Math.round(Math.max(data[i], data[i + 1], data[i + 2]) * data[i + 3] / 255);
+    data[i] = 255;
+    data[i + 1] = 0;
+    data[i + 2] = 0;
+    data[i + 3] = weight;
+  }
+  applyMaskPolicy(data, width, height, policy);
+  return mask;
+};
+
+// Maps a model result onto the base size without distortion, mirroring fitResultToSize:
+// plain scale, letterbox bars trimmed, or cover + center crop. The strategy is reported so
+// callers can warn when the model changed the aspect ratio.
+export const fitToSize = async (
+  image: RawImage,
+  width: number,
+  height: number
+): Promise<{ image: RawImage; strategy: FittedResult['strategy'] }> => {
+  const input = fromRaw(image);
+  if (!aspectDiffers(image.width, image.height, width, height)) {
+    return { image: await toRaw(input.resize(width, height, { fit: 'fill' })), strategy: 'scale' };
+  }
+
+  const content = detectLetterbox(image.data, image.width, image.height);
+  const trimmed = content.width > 0 && content.height > 0 && (content.width < image.width || content.height < image.height);
+  if (trimmed && !aspectDiffers(content.width, content.height, width, height)) {
+    const fitted = await toRaw(input
+      .extract({ left: content.x, top: content.y, width: content.width, height: content.height })
+      .resize(width, height, { fit: 'fill' }));
+    return { image: fitted, strategy: 'letterbox' };
+  }
+  return { image: await toRaw(input.resize(width, height, { fit: 'cover', position: 'centre' })), strategy: 'crop' };
+};
+
+// Composites the result over the base through the mask (in place on `result`) and reports drift
+export const compositeOverBase = (base: RawImage, result: RawImage, mask: RawImage, enforce: boolean) => {
+  const drift = measureDrift(base.data, result.data, mask.data);
+  if (enforce) blendByMask(base.data, result.data, mask.data);
+  return drift;
+};
@@ -0,0 +1,163 @@
+import { parseArgs } from 'node:util';
+import { MaskExportPolicy, RetryPolicy } from '../types';
+import { MODEL_OPTIONS, DEFAULT_MODEL_OPTION_ID, getModelOption, getProvider } from '../services/providers';
+import { geminiProvider } from '../services/geminiService';
+import { DEFAULT_RETRY_POLICY, runWithRetry } from '../services/requestPolicy';
+import { toAiServiceError, AI_ERROR_MESSAGES } from '../services/errors';
+import { DEFAULT_MASK_EXPORT_POLICY } from '../utils/mask';
+import { readImage, readMask, writeImage, toDataUrl, fromDataUrl, fitToSize, compositeOverBase } from './nodeImage';
+
+// Headless entry point for scripted edits:
+//   object-placer place    --base scene.jpg --mask mask.png --object chair.png [--model id] -o out.png
+//   object-placer erase    --base scene.jpg --mask mask.png [--model id] -o out.png
+//   object-placer generate --prompt "a red chair" [--model id] -o chair.png
+// Uses the same providers, retry policy and mask export as the editor.
+
+const USAGE = `Usage:
+  object-placer place    --base <image> --mask <mask> --object <image> -o <output> [options]
+  object-placer erase    --base <image> --mask <mask> -o <output> [options]
+  object-placer generate --prompt <text> -o <output> [options]
+
+Options:
+  --instruction <text> Extra guidance for the model, e.g. "match the warm evening light"
+  --model <id>        ${MODEL_OPTIONS.filter(option => option.providerId !== 'mock').map(option => option.id).join(', ')}
+                      (default: ${DEFAULT_MODEL_OPTION_ID})
+  --threshold <0-255> Mask threshold; brighter pixels are selected (default: ${DEFAULT_MASK_EXPORT_POLICY.threshold},
+                      so JPEG noise in white-on-black masks is ignored)
+  --grow <px>         Grow (positive) or shrink (negative) the mask (default: 0 for place, 4 for erase)
+  --feather <px>      Soften the mask edge (default: 0)
+  --no-composite      Keep the model output as is instead of restoring pixels outside the mask
+  --timeout <s>       Timeout per attempt in seconds (default: ${DEFAULT_RETRY_POLICY.timeoutMs / 1000})
+  --retries <n>       Retries for rate limits and server errors (default: ${DEFAULT_RETRY_POLICY.maxRetries})
+  -h, --help          Show this help
+
+Environment:
+  GEMINI_API_KEY      API key for the Gemini models
+  LOCAL_INPAINT_URL   Base URL of the local inpainting server`;
+
+class UsageError extends Error {}
+
+const parseNumber = (value: string | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${name} must be a number.`);
+  return number;
+};
+
+const requireOption = (value: string | undefined, name: string) => {
+  if (!value) throw new UsageError(`Missing --${name}.`);
+  return value;
+};
+
+const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      base: { type: 'string' },
+      mask: { type: 'string' },
+      object: { type: 'string' },
+      prompt: { type: 'string' },
+      instruction: { type: 'string' },
+      model: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      threshold: { type: 'string' },
+      grow: { type: 'string' },
+      feather: { type: 'string' },
+      'no-composite': { type: 'boolean' },
+      timeout: { type: 'string' },
+      retries: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'place' && command !== 'erase' && command !== 'generate') {
+    throw new UsageError(`Unknown command "${command}".`);
+  }
+
+  const modelId = values.model ?? DEFAULT_MODEL_OPTION_ID;
+  if (!MODEL_OPTIONS.some(option => option.id === modelId)) {
+    throw new UsageError(`Unknown model "${modelId}".`);
+  }
+  const { providerId, model } = getModelOption(modelId);
+  if (providerId === 'mock') {
+    throw new UsageError("The mock backend needs a browser canvas and is not available in the CLI.");
+  }
+  // The browser reaches Gemini through the API server; the CLI has the key and calls it directly
+  const provider = providerId === 'proxy' ? geminiProvider : getProvider(providerId);
+  const output = requireOption(values.output, 'output');
+  const { instruction } = values;
+  const retryPolicy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    timeoutMs: parseNumber(values.timeout, 'timeout', DEFAULT_RETRY_POLICY.timeoutMs / 1000) * 1000,
+    maxRetries: parseNumber(values.retries, 'retries', DEFAULT_RETRY_POLICY.maxRetries),
+  };
+
+  // Ctrl+C aborts the in-flight request instead of leaving it running
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  if (command === 'generate') {
+    const prompt = requireOption(values.prompt, 'prompt');
+    const result = await runWithRetry(signal => provider.generate({ prompt, instruction }, { signal }), retryPolicy, controller.signal);
+    await writeImage(output, await fromDataUrl(result));
+    console.log(`Wrote ${output}`);
+    return;
+  }
+
+  const base = await readImage(requireOption(values.base, 'base'));
+  const policy: MaskExportPolicy = {
+    ...DEFAULT_MASK_EXPORT_POLICY,
+    // Mask files are often JPEGs whose black is not quite black, so "any visible pixel" is too eager
+    mode: 'threshold',
+    threshold: parseNumber(values.threshold, 'threshold', DEFAULT_MASK_EXPORT_POLICY.threshold),
+    grow: parseNumber(values.grow, 'grow', command === 'erase' ? 4 : 0),
+    feather: parseNumber(values.feather, 'feather', 0),
+  };
+  const mask = await readMask(requireOption(values.mask, 'mask'), base.width, base.height, policy);
+  const [baseImage, maskImage] = await Promise.all([toDataUrl(base), toDataUrl(mask)]);
+
+  let result: string;
+  if (command === 'place') {
+    const objectImage = await toDataUrl(await readImage(requireOption(values.object, 'object')));
+    result = await runWithRetry(
+      signal => provider.place({ baseImage, maskImage, objectImage, model, instruction }, { signal }),
+      retryPolicy,
+      controller.signal
+    );
+  } else {
+    result = await runWithRetry(
+      signal => provider.erase({ baseImage, maskImage, model, instruction }, { signal }),
+      retryPolicy,
+      controller.signal
+    );
+  }
+
+  const raw = await fromDataUrl(result);
+  const { image: fitted, strategy } = await fitToSize(raw, base.width, base.height);
+  if (strategy !== 'scale') {
+    console.warn(
+      `Warning: the model returned ${raw.width}x${raw.height}, the base image is ${base.width}x${base.height}. ` +
+      (strategy === 'letterbox' ? 'Trimmed the padding bars to align it.' : 'Center-cropped it to align; content near the edges may be off.')
+    );
+  }
+  const drift = compositeOverBase(base, fitted, mask, !values['no-composite']);
+  await writeImage(output, fitted);
+  console.log(`Wrote ${output} (${(drift.driftRatio * 100).toFixed(1)}% of pixels outside the mask changed by the model${values['no-composite'] ? '' : ', restored'})`);
+};
+
+run(process.argv.slice(2)).catch(error => {
+  if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  const aiError = toAiServiceError(error);
+  const { title, hint } = AI_ERROR_MESSAGES[aiError.code];
+  console.error(`${title}: ${aiError.message}${hint ? `\n${hint}` : ''}`);
+  process.exit(1);
+});
@@ -0,0 +1,297 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { BatchJob, BatchOperation, processBatchImage, runQueue, createResultsZip, matchMaskName } from '../services/batch';
+import { toAiServiceError, AI_ERROR_MESSAGES } from '../services/errors';
+import { isAbortError } from '../services/requestPolicy';
+import { UploadIcon, DownloadIcon } from './Icons';
+
+interface BatchPanelProps {
+  // Mask painted in the editor, exported for the operation; null when nothing is painted
+  getSharedMask: (operation: BatchOperation) => string | null;
+  // Provider and settings for a run; null when the operation cannot start (e.g. no object for 'place')
+  createJob: (operation: BatchOperation) => BatchJob | null;
+  onClose: () => void;
+}
+
+interface MaskFile {
+  name: string;
+  image: string;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: '等待中',
+  running: '处理中',
+  done: '完成',
+  failed: '失败',
+};
+
+const STATUS_COLORS: Record<BatchItemStatus, string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const readImages = (files: FileList | null) => {
+  const images = Array.from(files || []).filter(file => file.type.startsWith('image/'));
+  return Promise.all(images.map(async file => ({ name: file.name, image: await readAsDataUrl(file) })));
+};
+
+const withMasks = (items: BatchItem[], maskFiles: MaskFile[]) => {
+  const names = maskFiles.map(mask => mask.name);
+  return items.map(item => {
+    const match = matchMaskName(item.name, names);
+    return { ...item, mask: maskFiles.find(mask => mask.name === match)?.image };
+  });
+};
+
+// Applies one placement or erase to many base images, with per-item progress, retry and zip download
+export const BatchPanel: React.FC<BatchPanelProps> = ({ getSharedMask, createJob, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [maskFiles, setMaskFiles] = useState<MaskFile[]>([]);
+  const [operation, setOperation] = useState<BatchOperation>('place');
+  const [maskMode, setMaskMode] = useState<'shared' | 'perImage'>('shared');
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const itemIdRef = useRef(0);
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const finishedShare = items.length > 0 ? (doneCount + failedCount) / items.length : 0;
+
+  const updateItem = (id: number, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const handleAddImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const images = await readImages(e.target.files);
+    e.target.value = '';
+    const added = images.map(({ name, image }): BatchItem => ({ id: ++itemIdRef.current, name, image, status: 'pending' }));
+    setItems(prev => withMasks([...prev, ...added], maskFiles));
+  };
+
+  const handleAddMasks = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const masks = [...maskFiles, ...await readImages(e.target.files)];
+    e.target.value = '';
+    setMaskFiles(masks);
+    setItems(prev => withMasks(prev, masks));
+  };
+
+  const run = async (onlyFailed: boolean) => {
+    setMessage(null);
+    const job = createJob(operation);
+    if (!job) {
+      setMessage(operation === 'place' ? '请先在左侧选择待放置物体。' : '无法开始批量处理。');
+      return;
+    }
+    const sharedMask = maskMode === 'shared' ? getSharedMask(operation) : null;
+    if (maskMode === 'shared' && !sharedMask) {
+      setMessage('请先在画布上涂抹蒙版，它会按相对位置应用到每张图片。');
+      return;
+    }
+
+    const targets = items.filter(item => (onlyFailed ? item.status === 'failed' : item.status !== 'done'));
+    if (targets.length === 0) return;
+    setItems(prev => prev.map(item => (targets.some(t => t.id === item.id) ? { ...item, status: 'pending', error: undefined, warning: undefined } : item)));
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    await runQueue(targets.length, concurrency, async index => {
+      const item = targets[index];
+      const mask = sharedMask ?? item.mask;
+      if (!mask) {
+        updateItem(item.id, { status: 'failed', error: '未找到对应蒙版' });
+        return;
+      }
+      updateItem(item.id, { status: 'running' });
+      try {
+        const { image, aspectMismatch } = await processBatchImage(item.image, mask, job, controller.signal);
+        updateItem(item.id, { status: 'done', result: image, warning: aspectMismatch ? '比例与原图不同，已裁剪对齐' : undefined });
+      } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) {
+          updateItem(item.id, { status: 'pending' });
+          return;
+        }
+        updateItem(item.id, { status: 'failed', error: AI_ERROR_MESSAGES[toAiServiceError(error).code].title });
+      }
+    }, controller.signal);
+    if (controllerRef.current === controller) controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  const handleDownload = () => {
+    const results = items.filter(item => item.result).map(item => ({ name: item.name, image: item.result! }));
+    if (results.length === 0) return;
+    const url = URL.createObjectURL(createResultsZip(results));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `batch-${operation}-${results.length}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleClose = () => {
+    handleCancel();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center backdrop-blur-sm">
+      <div className="w-[720px] max-h-[85vh] flex flex-col bg-[#27272a] border border-[#3f3f46] rounded-lg shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-[#3f3f46]">
+          <h2 className="text-sm font-semibold text-gray-200">批量处理</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-white text-sm">关闭</button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex items-center justify-between text-xs text-gray-400">
+              操作
+              <select
+                value={operation}
+                onChange={(e) => setOperation(e.target.value as BatchOperation)}
+                disabled={isRunning}
+                className="w-32 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 outline-none"
+              >
+                <option value="place">放置当前物体</option>
+                <option value="erase">擦除</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between text-xs text-gray-400">
+              同时处理数量
+              <input
+                type="number"
+                min="1"
+                max="6"
+                value={concurrency}
+                onChange={(e) => setConcurrency(Math.min(6, Math.max(1, parseInt(e.target.value) || 1)))}
+                disabled={isRunning}
+                className="w-20 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          </div>
+
+          <div className="flex bg-[#18181b] p-1 rounded-lg border border-[#3f3f46]">
+            <button
+              onClick={() => setMaskMode('shared')}
+              disabled={isRunning}
+              className={`flex-1 text-xs py-1.5 rounded-md transition-colors ${maskMode === 'shared' ? 'bg-[#3f3f46] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              共用画布上的蒙版（按相对位置）
+            </button>
+            <button
+              onClick={() => setMaskMode('perImage')}
+              disabled={isRunning}
+              className={`flex-1 text-xs py-1.5 rounded-md transition-colors ${maskMode === 'perImage' ? 'bg-[#3f3f46] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              每张图片单独蒙版
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <label className="flex items-center gap-2 px-3 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] cursor-pointer text-xs transition-colors">
+              <UploadIcon /> 选择图片
+              <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddImages} disabled={isRunning} />
+            </label>
+            <label className="flex items-center gap-2 px-3 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] cursor-pointer text-xs transition-colors">
+              <UploadIcon /> 选择文件夹
+              <input type="file" multiple className="hidden" onChange={handleAddImages} disabled={isRunning} {...{ webkitdirectory: '' }} />
+            </label>
+            {maskMode === 'perImage' && (
+              <label className="flex items-center gap-2 px-3 py-2 rounded-md bg-[#3f3f46] hover:bg-[#52525b] cursor-pointer text-xs transition-colors">
+                <UploadIcon /> 选择蒙版 ({maskFiles.length})
+                <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddMasks} disabled={isRunning} />
+              </label>
+            )}
+            {items.length > 0 && !isRunning && (
+              <button onClick={() => setItems([])} className="text-xs px-3 py-2 text-gray-400 hover:text-gray-200">清空列表</button>
+            )}
+          </div>
+          {maskMode === 'perImage' && (
+            <p className="text-xs text-gray-500">蒙版按文件名匹配：photo.jpg 对应 photo.png、photo_mask.png 或 photo.mask.png，白色为处理区域。</p>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>完成 {doneCount} / {items.length}{failedCount > 0 ? `，失败 ${failedCount}` : ''}</span>
+              </div>
+              <div className="h-1.5 bg-[#18181b] rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${finishedShare * 100}%` }} />
+              </div>
+              <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+                {items.map(item => (
+                  <div key={item.id} className="flex items-center gap-3 p-1.5 rounded-md bg-[#18181b]">
+                    <img src={item.result ?? item.image} alt="" className="w-10 h-10 object-cover rounded shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-xs text-gray-200 truncate">{item.name}</div>
+                      <div className="text-[10px] text-gray-500 truncate">
+                        {maskMode === 'perImage' ? (item.mask ? '已匹配蒙版' : '未匹配蒙版') : '共用蒙版'}
+                        {item.error ? ` · ${item.error}` : ''}
+                        {item.warning && <span className="text-yellow-400"> · {item.warning}</span>}
+                      </div>
+                    </div>
+                    <span className={`text-xs shrink-0 ${STATUS_COLORS[item.status]}`}>{STATUS_LABELS[item.status]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {message && <p className="text-xs text-yellow-400">{message}</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-5 py-3 border-t border-[#3f3f46]">
+          {isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] text-sm transition-colors"
+            >
+              停止
+            </button>
+          ) : (
+            <>
+              {failedCount > 0 && (
+                <button
+                  onClick={() => run(true)}
+                  className="px-4 py-2 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] text-sm transition-colors"
+                >
+                  重试失败项
+                </button>
+              )}
+              <button
+                onClick={() => run(false)}
+                disabled={items.length === 0 || doneCount === items.length}
+                className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm transition-colors"
+              >
+                开始处理
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={doneCount === 0}
+            className="px-4 py-2 rounded-md bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm transition-colors flex items-center gap-2"
+          >
+            <DownloadIcon /> 下载 ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -10,28 +10,37 @@ export const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ beforeImage,
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleMouseDown = () => setIsDragging(true);
-  const handleMouseUp = () => setIsDragging(false);
-
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!isDragging || !containerRef.current) return;
+  const moveSliderTo = (clientX: number) => {
+    if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
-    const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
+    const x = Math.max(0, Math.min(clientX - rect.left, rect.width));
     const percentage = (x / rect.width) * 100;
     setSliderPosition(percentage);
   };
 
+  // Pointer Events cover mouse, pen and touch alike
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+    moveSliderTo(e.clientX);
+  };
+  const handlePointerUp = () => setIsDragging(false);
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!isDragging) return;
+    moveSliderTo(e.clientX);
+  };
+
   useEffect(() => {
     if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-    } else {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+      window.addEventListener('pointercancel', handlePointerUp);
     }
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
     };
   }, [isDragging]);
 
@@ -39,6 +48,8 @@ export const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ beforeImage,
     <div 
       ref={containerRef}
       className="relative w-full h-full select-none overflow-hidden cursor-ew-resize bg-black/50"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
     >
       {/* After Image (Background) */}
       <img 
@@ -70,7 +81,6 @@ export const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ beforeImage,
       <div 
         className="absolute top-0 bottom-0 w-1 bg-white cursor-ew-resize z-10 shadow-lg"
         style={{ left: `${sliderPosition}%` }}
-        onMouseDown={handleMouseDown}
       >
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-white rounded-full shadow-lg flex items-center justify-center text-gray-800">
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m9 18-6-6 6-6"/><path d="m15 6 6 6-6 6"/></svg>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { OutpaintSide } from '../types';
+import { OUTPAINT_SIDES } from '../utils/outpaint';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+
+interface EditOptionsPanelProps {
+  prompt: string;
+  outpaintSides: OutpaintSide[];
+  outpaintAmount: number; // Share of the image size added per side
+  onPromptChange: (prompt: string) => void;
+  onOutpaintSidesChange: (sides: OutpaintSide[]) => void;
+  onOutpaintAmountChange: (amount: number) => void;
+}
+
+const SIDE_LABELS: Record<OutpaintSide, string> = {
+  top: '上',
+  right: '右',
+  bottom: '下',
+  left: '左',
+};
+
+const AMOUNTS = [0.1, 0.25, 0.5];
+
+// Settings for the text-driven edits: 替换 / 改风格 use the description, 扩图 the sides and amount
+export const EditOptionsPanel: React.FC<EditOptionsPanelProps> = ({
+  prompt,
+  outpaintSides,
+  outpaintAmount,
+  onPromptChange,
+  onOutpaintSidesChange,
+  onOutpaintAmountChange,
+}) => {
+  const toggleSide = (side: OutpaintSide) => {
+    onOutpaintSidesChange(outpaintSides.includes(side) ? outpaintSides.filter(s => s !== side) : [...outpaintSides, side]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={prompt}
+        onChange={(e) => onPromptChange(e.target.value)}
+        maxLength={MAX_INSTRUCTION_LENGTH}
+        placeholder="描述新内容，例如：一盆绿植 / 深绿色丝绒 / 延伸的海滩"
+        className="w-full h-16 bg-[#18181b] border border-[#52525b] rounded-md p-2 text-xs text-gray-200 focus:outline-none focus:border-blue-500 resize-none"
+      />
+      <p className="text-xs text-gray-500">
+        替换：按描述重绘蒙版区域；改风格：只换材质或颜色，保留形状；扩图：向所选方向扩展画布（描述可选）。
+      </p>
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        扩图方向
+        <div className="flex gap-1">
+          {OUTPAINT_SIDES.map(side => (
+            <button
+              key={side}
+              onClick={() => toggleSide(side)}
+              className={`w-7 py-1 rounded border text-xs transition-colors ${outpaintSides.includes(side) ? 'bg-blue-600 border-blue-500 text-white' : 'border-[#52525b] text-gray-400 hover:text-gray-200'}`}
+            >
+              {SIDE_LABELS[side]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        每侧扩展
+        <select
+          value={outpaintAmount}
+          onChange={(e) => onOutpaintAmountChange(Number(e.target.value))}
+          className="w-28 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 outline-none"
+        >
+          {AMOUNTS.map(amount => (
+            <option key={amount} value={amount}>{Math.round(amount * 100)}%</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { EditStep, EditOperation } from '../types';
+import { UndoIcon, RedoIcon } from './Icons';
+import { getModelOption } from '../services/providers';
+
+interface HistoryPanelProps {
+  steps: EditStep[];
+  currentIndex: number;
+  disabled?: boolean;
+  onJump: (index: number) => void;
+}
+
+const OPERATION_LABELS: Record<EditOperation, string> = {
+  original: '原图',
+  place: '放置物体',
+  erase: '擦除',
+  replace: '按描述替换',
+  restyle: '更改风格',
+  outpaint: '扩图',
+};
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+};
+
+// Document-level version list. Steps after the current one stay available for redo until a new edit is applied.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ steps, currentIndex, disabled, onJump }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">编辑历史</h2>
+        <div className="flex gap-1">
+          <button 
+            onClick={() => onJump(currentIndex - 1)}
+            disabled={disabled || currentIndex <= 0}
+            className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="撤销上一步编辑"
+          >
+            <UndoIcon />
+          </button>
+          <button 
+            onClick={() => onJump(currentIndex + 1)}
+            disabled={disabled || currentIndex >= steps.length - 1}
+            className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="重做编辑"
+          >
+            <RedoIcon />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {steps.map((step, index) => (
+          <button 
+            key={step.id}
+            onClick={() => onJump(index)}
+            disabled={disabled}
+            className={`w-full flex items-center gap-2 p-1.5 rounded-md text-left transition-colors disabled:cursor-not-allowed ${
+              index === currentIndex ? 'bg-[#3f3f46]' : 'hover:bg-[#3f3f46]/60'
+            } ${index > currentIndex ? 'opacity-50' : ''}`}
+          >
+            <img src={step.image} alt="" className="w-10 h-10 object-cover rounded bg-[#18181b] shrink-0" />
+            <div className="min-w-0">
+              <div className="text-xs text-gray-200">{index}. {OPERATION_LABELS[step.operation]}</div>
+              <div className="text-[10px] text-gray-500 truncate">
+                {step.model ? `${getModelOption(step.model).label} · ` : ''}{formatTime(step.createdAt)}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { MaskExportPolicy } from '../types';
+
+export type MaskPolicyOperation = 'place' | 'erase';
+
+interface MaskPolicyPanelProps {
+  policies: Record<MaskPolicyOperation, MaskExportPolicy>;
+  onChange: (operation: MaskPolicyOperation, policy: MaskExportPolicy) => void;
+}
+
+const OPERATION_LABELS: Record<MaskPolicyOperation, string> = {
+  place: '放置',
+  erase: '擦除',
+};
+
+// Per-operation settings for turning the painted mask into the mask image sent to the model
+export const MaskPolicyPanel: React.FC<MaskPolicyPanelProps> = ({ policies, onChange }) => {
+  const [operation, setOperation] = useState<MaskPolicyOperation>('place');
+  const policy = policies[operation];
+  const update = (patch: Partial<MaskExportPolicy>) => onChange(operation, { ...policy, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex bg-[#18181b] p-1 rounded-lg border border-[#3f3f46]">
+        {(Object.keys(OPERATION_LABELS) as MaskPolicyOperation[]).map(op => (
+          <button 
+            key={op}
+            onClick={() => setOperation(op)}
+            className={`flex-1 text-xs py-1.5 rounded-md transition-colors ${operation === op ? 'bg-[#3f3f46] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            {OPERATION_LABELS[op]}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        二值化方式
+        <select
+          value={policy.mode}
+          onChange={(e) => update({ mode: e.target.value as MaskExportPolicy['mode'] })}
+          className="w-28 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 outline-none"
+        >
+          <option value="binary">硬边 (涂抹即选中)</option>
+          <option value="threshold">阈值</option>
+          <option value="soft">柔边 (保留笔刷硬度)</option>
+        </select>
+      </label>
+
+      {policy.mode === 'threshold' && (
+        <label className="flex items-center justify-between text-xs text-gray-400">
+          阈值 ({Math.round(policy.threshold / 255 * 100)}%)
+          <input 
+            type="range" 
+            min="1" 
+            max="255" 
+            value={policy.threshold}
+            onChange={(e) => update({ threshold: parseInt(e.target.value) })}
+            className="w-28 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </label>
+      )}
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        扩展 / 收缩 (像素)
+        <input 
+          type="number" 
+          min="-50" 
+          max="50" 
+          value={policy.grow}
+          onChange={(e) => update({ grow: Math.min(50, Math.max(-50, parseInt(e.target.value) || 0)) })}
+          className="w-20 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        羽化 (像素)
+        <input 
+          type="number" 
+          min="0" 
+          max="50" 
+          value={policy.feather}
+          onChange={(e) => update({ feather: Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) })}
+          className="w-20 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+      <p className="text-xs text-gray-500">擦除时适当扩展几个像素，可让模型覆盖物体边缘。</p>
+    </div>
+  );
+};
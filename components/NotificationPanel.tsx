@@ -0,0 +1,53 @@
+import React from 'react';
+import { AppNotification } from '../types';
+
+interface NotificationPanelProps {
+  notifications: AppNotification[];
+  onDismiss: (id: number) => void;
+}
+
+const LEVEL_STYLES: Record<AppNotification['level'], string> = {
+  error: 'border-red-500/60 bg-red-950/90',
+  warning: 'border-yellow-500/60 bg-yellow-950/90',
+  info: 'border-blue-500/60 bg-blue-950/90',
+};
+
+export const NotificationPanel: React.FC<NotificationPanelProps> = ({ notifications, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed top-16 right-4 z-[60] flex flex-col gap-2 w-80 pointer-events-none">
+      {notifications.map(notification => (
+        <div 
+          key={notification.id}
+          className={`pointer-events-auto border rounded-lg shadow-lg p-3 text-sm backdrop-blur-sm ${LEVEL_STYLES[notification.level]}`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="font-medium text-white">{notification.title}</div>
+            <button 
+              onClick={() => onDismiss(notification.id)}
+              className="text-gray-400 hover:text-white shrink-0"
+              title="关闭"
+            >
+              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+            </button>
+          </div>
+          {notification.message && (
+            <div className="text-xs text-gray-300 mt-1 leading-relaxed">{notification.message}</div>
+          )}
+          {notification.onRetry && (
+            <button 
+              onClick={() => {
+                onDismiss(notification.id);
+                notification.onRetry?.();
+              }}
+              className="mt-2 px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+            >
+              重试
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { LibraryObject } from '../types';
+import { matchesLibraryQuery, parseTags } from '../services/objectLibrary';
+
+interface ObjectLibraryPanelProps {
+  entries: LibraryObject[];
+  onSelect: (entry: LibraryObject) => void;
+  onUpdate: (entry: LibraryObject) => void;
+  onDelete: (id: string) => void;
+}
+
+// Searchable grid of saved objects; clicking an entry makes it the current object
+export const ObjectLibraryPanel: React.FC<ObjectLibraryPanelProps> = ({ entries, onSelect, onUpdate, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const visible = entries.filter(entry => matchesLibraryQuery(entry, query));
+
+  const saveEdit = (entry: LibraryObject) => {
+    if (!editing) return;
+    onUpdate({ ...entry, name: editing.name, tags: parseTags(editing.tags) });
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="按名称或标签搜索"
+        className="w-full bg-[#18181b] border border-[#52525b] rounded-md px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+      />
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500">物体库为空。选择物体后点击"保存到物体库"即可在以后重复使用。</p>
+      ) : visible.length === 0 ? (
+        <p className="text-xs text-gray-500">没有匹配的物体。</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto pr-1">
+          {visible.map(entry => editing?.id === entry.id ? (
+            <div key={entry.id} className="col-span-2 space-y-1.5 p-2 rounded-md bg-[#18181b] border border-[#52525b]">
+              <input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="名称"
+                className="w-full bg-[#27272a] border border-[#52525b] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+              />
+              <input
+                value={editing.tags}
+                onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && saveEdit(entry)}
+                placeholder="标签，用逗号或空格分隔"
+                className="w-full bg-[#27272a] border border-[#52525b] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="text-xs text-gray-400 hover:text-gray-200">取消</button>
+                <button onClick={() => saveEdit(entry)} className="text-xs text-blue-400 hover:text-blue-300">保存</button>
+              </div>
+            </div>
+          ) : (
+            <div key={entry.id} className="relative group rounded-md bg-[#18181b] border border-[#3f3f46] hover:border-blue-500 transition-colors">
+              <button onClick={() => onSelect(entry)} className="w-full p-1.5 text-left" title={`使用 ${entry.name}`}>
+                <img src={entry.thumbnail} alt={entry.name} className="w-full h-20 object-contain" />
+                <div className="mt-1 text-xs text-gray-200 truncate">{entry.name}</div>
+                <div className="text-[10px] text-gray-500 truncate">{entry.tags.length > 0 ? entry.tags.map(tag => `#${tag}`).join(' ') : ' '}</div>
+              </button>
+              <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => setEditing({ id: entry.id, name: entry.name, tags: entry.tags.join(', ') })}
+                  className="bg-[#3f3f46]/90 text-gray-200 text-[10px] px-1.5 py-0.5 rounded"
+                >
+                  编辑
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  className="bg-red-500/80 text-white text-[10px] px-1.5 py-0.5 rounded"
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
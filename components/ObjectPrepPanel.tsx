@@ -0,0 +1,110 @@
+import React from 'react';
+import { ObjectSource } from '../types';
+
+interface ObjectPrepPanelProps {
+  source: ObjectSource;
+  tolerance: number;
+  busy: boolean;
+  segmenting: boolean; // AI segmentation in flight, can be cancelled
+  onToleranceChange: (tolerance: number) => void;
+  onRemoveLocal: () => void;
+  onRemoveAi: () => void;
+  onCancelAi: () => void;
+  onRestore: () => void;
+  onClear: () => void;
+  onSave: () => void;
+}
+
+// Checkerboard so transparent areas of the prepared object are visible
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundColor: '#27272a',
+  backgroundImage: 'conic-gradient(#3f3f46 25%, transparent 0 50%, #3f3f46 0 75%, transparent 0)',
+  backgroundSize: '16px 16px',
+};
+
+// Preview of the selected object with background removal controls and saving to the library
+export const ObjectPrepPanel: React.FC<ObjectPrepPanelProps> = ({
+  source,
+  tolerance,
+  busy,
+  segmenting,
+  onToleranceChange,
+  onRemoveLocal,
+  onRemoveAi,
+  onCancelAi,
+  onRestore,
+  onClear,
+  onSave,
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="relative group">
+        <div className="text-xs text-gray-400 mb-1">当前选择{source.original ? '（已去除背景）' : ''}:</div>
+        <img src={source.previewUrl} alt="Object" style={CHECKERBOARD} className="w-full h-40 object-contain rounded-md border border-[#52525b]" />
+        <button
+          onClick={onClear}
+          className="absolute top-7 right-2 bg-red-500/80 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        背景容差
+        <input
+          type="range"
+          min="5"
+          max="120"
+          value={tolerance}
+          onChange={(e) => onToleranceChange(parseInt(e.target.value))}
+          className="w-28 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          title="与背景颜色相差多少以内的像素会被去除"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onRemoveLocal}
+          disabled={busy}
+          className="flex-1 text-xs py-1.5 rounded-md bg-[#3f3f46] hover:bg-[#52525b] disabled:opacity-50 text-gray-200 transition-colors"
+          title="从边缘填充去除纯色背景（本地处理）"
+        >
+          去除背景
+        </button>
+        <button
+          onClick={onRemoveAi}
+          disabled={busy}
+          className="flex-1 text-xs py-1.5 rounded-md bg-[#3f3f46] hover:bg-[#52525b] disabled:opacity-50 text-gray-200 transition-colors"
+          title="用当前模型分割物体，适合复杂背景"
+        >
+          {busy ? '处理中...' : 'AI 抠图'}
+        </button>
+        {segmenting && (
+          <button
+            onClick={onCancelAi}
+            className="text-xs px-2 py-1.5 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] transition-colors"
+          >
+            取消
+          </button>
+        )}
+        {source.original && (
+          <button
+            onClick={onRestore}
+            disabled={busy}
+            className="text-xs px-2 py-1.5 rounded-md border border-[#52525b] text-gray-400 hover:text-gray-200 disabled:opacity-50 transition-colors"
+          >
+            还原
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={onSave}
+        disabled={busy}
+        className="w-full text-xs py-1.5 rounded-md border border-[#52525b] text-gray-300 hover:bg-[#3f3f46] disabled:opacity-50 transition-colors"
+      >
+        保存到物体库
+      </button>
+    </div>
+  );
+};
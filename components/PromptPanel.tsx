@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { PromptOperation, PromptTemplate } from '../types';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+
+interface PromptPanelProps {
+  instructions: Record<PromptOperation, string>;
+  templates: PromptTemplate[];
+  onChange: (operation: PromptOperation, instruction: string) => void;
+  onSaveTemplate: (operation: PromptOperation, name: string, instruction: string) => PromptTemplate | null;
+  onDeleteTemplate: (id: string) => void;
+}
+
+const OPERATION_LABELS: Record<PromptOperation, string> = {
+  place: '放置',
+  erase: '擦除',
+  replace: '替换',
+  restyle: '风格',
+  outpaint: '扩图',
+  generate: '生成',
+};
+
+const PLACEHOLDERS: Record<PromptOperation, string> = {
+  place: '例如：匹配傍晚的暖色光线，添加柔和的接触阴影',
+  erase: '例如：延续地板的木纹，不要添加新物体',
+  replace: '例如：与周围家具保持同一色调',
+  restyle: '例如：保留原有的反光和磨损痕迹',
+  outpaint: '例如：不要在扩展区域添加人物',
+  generate: '例如：棚拍产品图，柔和均匀的光线',
+};
+
+// Optional free-text instruction per operation, plus named templates to reuse them
+export const PromptPanel: React.FC<PromptPanelProps> = ({ instructions, templates, onChange, onSaveTemplate, onDeleteTemplate }) => {
+  const [operation, setOperation] = useState<PromptOperation>('place');
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [name, setName] = useState('');
+  const instruction = instructions[operation];
+  const operationTemplates = templates.filter(t => t.operation === operation);
+  const selected = operationTemplates.find(t => t.id === selectedId);
+
+  const selectOperation = (op: PromptOperation) => {
+    setOperation(op);
+    setSelectedId('');
+    setName('');
+  };
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    const template = operationTemplates.find(t => t.id === id);
+    if (template) {
+      onChange(operation, template.instruction);
+      setName(template.name);
+    }
+  };
+
+  const handleSave = () => {
+    const template = onSaveTemplate(operation, name, instruction);
+    if (template) {
+      setSelectedId(template.id);
+      setName(template.name);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onDeleteTemplate(selected.id);
+    setSelectedId('');
+    setName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex bg-[#18181b] p-1 rounded-lg border border-[#3f3f46]">
+        {(Object.keys(OPERATION_LABELS) as PromptOperation[]).map(op => (
+          <button
+            key={op}
+            onClick={() => selectOperation(op)}
+            className={`flex-1 text-xs py-1.5 rounded-md transition-colors ${operation === op ? 'bg-[#3f3f46] text-white' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            {OPERATION_LABELS[op]}{instructions[op].trim() ? ' •' : ''}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={selectedId}
+        onChange={(e) => selectTemplate(e.target.value)}
+        className="w-full bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-xs text-gray-200 outline-none"
+      >
+        <option value="">选择模板…</option>
+        {operationTemplates.map(template => (
+          <option key={template.id} value={template.id}>{template.name}</option>
+        ))}
+      </select>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => onChange(operation, e.target.value)}
+        maxLength={MAX_INSTRUCTION_LENGTH}
+        placeholder={PLACEHOLDERS[operation]}
+        className="w-full h-20 bg-[#18181b] border border-[#52525b] rounded-md p-2 text-xs text-gray-200 focus:outline-none focus:border-blue-500 resize-none"
+      />
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="模板名称"
+          className="flex-1 min-w-0 bg-[#18181b] border border-[#52525b] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!instruction.trim()}
+          className="px-2 py-1 rounded border border-[#52525b] text-xs text-gray-300 hover:bg-[#3f3f46] disabled:opacity-50 transition-colors"
+          title="同名模板会被覆盖"
+        >
+          {selected && selected.name === name.trim() ? '更新' : '保存'}
+        </button>
+        {selected && (
+          <button
+            onClick={handleDelete}
+            className="px-2 py-1 rounded border border-[#52525b] text-xs text-gray-400 hover:text-red-400 hover:bg-[#3f3f46] transition-colors"
+          >
+            删除
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">附加指令只影响风格、光线等细节，不会扩大蒙版范围。</p>
+    </div>
+  );
+};
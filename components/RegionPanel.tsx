@@ -0,0 +1,75 @@
+import React from 'react';
+import { PlacementRegion } from '../types';
+import { REGION_COLORS } from '../utils/regionMap';
+
+interface RegionPanelProps {
+  regions: PlacementRegion[];
+  activeId: number;
+  canAssign: boolean; // Whether there is a current object to assign
+  disabled?: boolean;
+  onSelect: (id: number) => void;
+  onAdd: () => void;
+  onRemove: (id: number) => void;
+  onAssign: (id: number) => void;
+}
+
+// Mask regions for placing several objects at once. The active region receives brush and shape edits.
+export const RegionPanel: React.FC<RegionPanelProps> = ({ regions, activeId, canAssign, disabled, onSelect, onAdd, onRemove, onAssign }) => {
+  const isMulti = regions.length > 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">放置区域</span>
+        <button
+          onClick={onAdd}
+          disabled={disabled || regions.length >= REGION_COLORS.length}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+          title="添加一个区域，为它单独指定物体，一次放置多个物体"
+        >
+          + 添加区域
+        </button>
+      </div>
+
+      {isMulti && (
+        <div className="space-y-1">
+          {regions.map((region, index) => (
+            <div
+              key={region.id}
+              onClick={() => !disabled && onSelect(region.id)}
+              className={`flex items-center gap-2 p-1.5 rounded-md cursor-pointer transition-colors ${
+                region.id === activeId ? 'bg-[#3f3f46]' : 'hover:bg-[#3f3f46]/60'
+              }`}
+            >
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: region.color }} />
+              {region.objectSource ? (
+                <img src={region.objectSource.previewUrl} alt="" className="w-8 h-8 object-contain rounded bg-[#18181b] shrink-0" />
+              ) : (
+                <div className="w-8 h-8 rounded bg-[#18181b] border border-dashed border-[#52525b] shrink-0" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="text-xs text-gray-200">区域 {index + 1}</div>
+                <div className="text-[10px] text-gray-500 truncate">{region.objectSource?.name || (region.objectSource ? '已指定物体' : '未指定物体')}</div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onAssign(region.id); }}
+                disabled={disabled || !canAssign}
+                className="text-[10px] text-gray-400 hover:text-gray-200 disabled:opacity-40"
+                title="把当前选择的物体用于此区域"
+              >
+                使用当前物体
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(region.id); }}
+                disabled={disabled}
+                className="text-[10px] text-red-400 hover:text-red-300 disabled:opacity-40"
+              >
+                删除
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
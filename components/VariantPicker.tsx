@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface VariantPickerProps {
+  variants: string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Thumbnail strip for choosing between several generated results
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, selectedIndex, onSelect }) => {
+  if (variants.length < 2) return null;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex gap-2 bg-black/70 p-2 rounded-lg backdrop-blur-sm">
+      {variants.map((variant, index) => (
+        <button 
+          key={index}
+          onClick={() => onSelect(index)}
+          className={`relative w-20 h-20 rounded-md overflow-hidden border-2 transition-colors ${index === selectedIndex ? 'border-blue-500' : 'border-transparent hover:border-gray-400'}`}
+          title={`候选 ${index + 1}`}
+        >
+          <img src={variant} alt={`候选 ${index + 1}`} className="w-full h-full object-cover" />
+          <span className="absolute bottom-0 right-0 bg-black/70 text-white text-[10px] px-1 rounded-tl">{index + 1}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { request as httpRequest, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AiErrorCode } from '../types';
+import { AiServiceError } from '../services/errors';
+import { createApiServer } from './app';
+
+const { place, placeMany, erase, generate } = vi.hoisted(() => ({
+  place: vi.fn(),
+  placeMany: vi.fn(),
+  erase: vi.fn(),
+  generate: vi.fn(),
+}));
+
+vi.mock('../services/geminiService', () => ({
+  geminiProvider: { id: 'gemini', name: 'Gemini', place, placeMany, erase, generate },
+}));
+
+const IMAGE = 'data:image/png;base64,AAAA';
+const MODEL = 'gemini-2.5-flash-image';
+const MAX_BODY_BYTES = 4096;
+
+let server: Server;
+let baseUrl: string;
+
+const post = async (path: string, body: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, json: await response.json() };
+};
+
+// Streams `size` bytes with chunked encoding and resolves with the response as soon as it arrives
+const postChunked = (path: string, size: number) => new Promise<{ status: number; body: string }>((resolve, reject) => {
+  const req = httpRequest(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+    let body = '';
+    res.on('data', chunk => { body += chunk; });
+    res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+  });
+  req.on('error', reject);
+  const chunk = Buffer.alloc(1024, ' ');
+  let sent = 0;
+  const write = () => {
+    while (sent < size) {
+      sent += chunk.length;
+      if (!req.write(chunk)) {
+        req.once('drain', write);
+        return;
+      }
+    }
+    req.end();
+  };
+  write();
+});
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  server = createApiServer({ maxBodyBytes: MAX_BODY_BYTES, rateLimitPerMinute: 1000, trustProxy: false });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  for (const mock of [place, placeMany, erase, generate]) mock.mockReset();
+});
+
+describe('API server', () => {
+  it('answers a valid request with the provider image', async () => {
+    erase.mockResolvedValue('data:image/png;base64,RVJBU0VE');
+
+    const response = await post('/api/erase', { baseImage: IMAGE, maskImage: IMAGE, model: MODEL, instruction: 'keep the wood grain' });
+
+    expect(response).toMatchObject({ status: 200, json: { image: 'data:image/png;base64,RVJBU0VE' } });
+    expect(erase.mock.calls[0][0]).toEqual({ baseImage: IMAGE, maskImage: IMAGE, model: MODEL, instruction: 'keep the wood grain' });
+  });
+
+  it.each([
+    ['a missing image', { maskImage: IMAGE, model: MODEL }, '"baseImage" must be an image Data URL.'],
+    ['an image that is no Data URL', { baseImage: 'https://example.com/a.png', maskImage: IMAGE, model: MODEL }, '"baseImage" must be an image Data URL.'],
+    ['an unknown model', { baseImage: IMAGE, maskImage: IMAGE, model: 'gpt-image' }, '"model" must be one of'],
+    ['an oversized instruction', { baseImage: IMAGE, maskImage: IMAGE, model: MODEL, instruction: 'x'.repeat(501) }, '"instruction" must be a string'],
+  ])('rejects %s with 400', async (_, body, message) => {
+    const response = await post('/api/erase', body);
+
+    expect(response.status).toBe(400);
+    expect(response.json.error.code).toBe(AiErrorCode.INVALID_REQUEST);
+    expect(response.json.error.message).toContain(message);
+    expect(erase).not.toHaveBeenCalled();
+  });
+
+  it('rejects bodies that are no JSON object with 400', async () => {
+    for (const body of ['not json', '[]', 'null']) {
+      const response = await post('/api/erase', body);
+      expect(response.status).toBe(400);
+      expect(response.json.error.message).toBe('Request body must be a JSON object.');
+    }
+  });
+
+  it('rejects malformed regions with 400', async () => {
+    for (const regions of [[], [null], [[1]], 'regions']) {
+      const response = await post('/api/place-many', { baseImage: IMAGE, regionMap: IMAGE, regions, model: MODEL });
+      expect(response.status).toBe(400);
+    }
+    expect(placeMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects an empty or oversized prompt with 400', async () => {
+    expect((await post('/api/generate', { prompt: '  ' })).status).toBe(400);
+    expect((await post('/api/generate', { prompt: 'x'.repeat(2001) })).status).toBe(400);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('answers 413 to a body whose Content-Length exceeds the limit', async () => {
+    const response = await post('/api/erase', { baseImage: `data:image/png;base64,${'A'.repeat(MAX_BODY_BYTES)}` });
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect(response.json.error.code).toBe(AiErrorCode.PAYLOAD_TOO_LARGE);
+  });
+
+  it('answers 413 to an oversized chunked body instead of resetting the connection', async () => {
+    const response = await postChunked('/api/erase', MAX_BODY_BYTES * 4);
+
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body).error.code).toBe(AiErrorCode.PAYLOAD_TOO_LARGE);
+  });
+
+  it.each([
+    [AiErrorCode.SAFETY_BLOCKED, 422],
+    [AiErrorCode.QUOTA_EXCEEDED, 429],
+    [AiErrorCode.EMPTY_RESPONSE, 502],
+    [AiErrorCode.TIMEOUT, 504],
+    [AiErrorCode.MISSING_API_KEY, 500],
+  ])('maps provider error %s to status %i', async (code, status) => {
+    place.mockRejectedValue(new AiServiceError(code, 'Provider failed'));
+
+    const response = await post('/api/place', { baseImage: IMAGE, maskImage: IMAGE, objectImage: IMAGE, model: MODEL });
+
+    expect(response).toMatchObject({ status, json: { error: { code, message: 'Provider failed' } } });
+  });
+
+  it('reports programming errors as UNKNOWN, not as network trouble', async () => {
+    place.mockRejectedValue(new TypeError("Cannot read properties of null (reading 'maskImage')"));
+
+    const response = await post('/api/place', { baseImage: IMAGE, maskImage: IMAGE, objectImage: IMAGE, model: MODEL });
+
+    expect(response.status).toBe(500);
+    expect(response.json.error.code).toBe(AiErrorCode.UNKNOWN);
+  });
+
+  it('answers unknown routes with 404 and other methods with 405', async () => {
+    expect((await post('/api/unknown', {})).status).toBe(404);
+
+    const response = await fetch(`${baseUrl}/api/place`);
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('POST');
+  });
+});
+
+describe('API server rate limit', () => {
+  const startServer = async (trustProxy: boolean) => {
+    const limited = createApiServer({ maxBodyBytes: MAX_BODY_BYTES, rateLimitPerMinute: 1, trustProxy });
+    await new Promise<void>(resolve => limited.listen(0, '127.0.0.1', resolve));
+    return { limited, url: `http://127.0.0.1:${(limited.address() as AddressInfo).port}/api/generate` };
+  };
+
+  const send = (url: string, forwardedFor: string) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwardedFor },
+    body: JSON.stringify({ prompt: 'a chair' }),
+  });
+
+  it('answers 429 with Retry-After once a client is over the limit', async () => {
+    generate.mockResolvedValue(IMAGE);
+    const { limited, url } = await startServer(false);
+
+    expect((await send(url, '10.0.0.1')).status).toBe(200);
+    // Without TRUST_PROXY the forwarded address is ignored and both requests share a bucket
+    const response = await send(url, '10.0.0.2');
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await response.json()).error.code).toBe(AiErrorCode.QUOTA_EXCEEDED);
+
+    await new Promise(resolve => limited.close(resolve));
+  });
+
+  it('keeps a bucket per forwarded client with TRUST_PROXY', async () => {
+    generate.mockResolvedValue(IMAGE);
+    const { limited, url } = await startServer(true);
+
+    expect((await send(url, '10.0.0.1')).status).toBe(200);
+    expect((await send(url, '10.0.0.2, 127.0.0.1')).status).toBe(200);
+    expect((await send(url, '10.0.0.1')).status).toBe(429);
+
+    await new Promise(resolve => limited.close(resolve));
+  });
+});
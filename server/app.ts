@@ -0,0 +1,283 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AiErrorCode } from '../types';
+import { geminiProvider } from '../services/geminiService';
+import { toAiServiceError } from '../services/errors';
+import { MODEL_OPTIONS } from '../services/providers';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+
+// HTTP handling of the API proxy (see index.ts for the entry point and its configuration).
+//
+// Routes (POST, JSON in, { image } out; images as Data URLs):
+//   /api/place      { baseImage, maskImage, objectImage, model, instruction? }
+//   /api/place-many { baseImage, regionMap, regions: [{ maskImage, objectImage, color, colorName }], model, instruction? }
+//   /api/erase      { baseImage, maskImage, model, instruction? }
+//   /api/harmonize  { guideImage, maskImage, objectImage, model, instruction? }
+//   /api/isolate    { image, model }
+//   /api/replace    { baseImage, maskImage, prompt, model, instruction? }
+//   /api/restyle    { baseImage, maskImage, prompt, model, instruction? }
+//   /api/outpaint   { baseImage, maskImage, prompt?, model, instruction? }
+//   /api/generate   { prompt, instruction? }
+// Failures respond with { error: { code: AiErrorCode, message } }.
+
+export interface ApiServerOptions {
+  maxBodyBytes: number;
+  rateLimitPerMinute: number;
+  trustProxy: boolean; // Identify clients by X-Forwarded-For
+}
+
+// Upper bound for one upstream call; the browser applies its own, usually shorter, timeout
+const UPSTREAM_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_PROMPT_LENGTH = 2000;
+
+const GEMINI_MODELS = MODEL_OPTIONS.filter(option => option.providerId === 'proxy').map(option => option.model);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code: AiErrorCode = AiErrorCode.INVALID_REQUEST) {
+    super(message);
+  }
+}
+
+type Body = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Body => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readImageField = (body: Body, name: string): string => {
+  const value = body[name];
+  if (typeof value !== 'string' || !value.startsWith('data:image/')) {
+    throw new HttpError(400, `"${name}" must be an image Data URL.`);
+  }
+  return value;
+};
+
+const readModel = (body: Body): string => {
+  const model = body.model;
+  if (typeof model !== 'string' || !GEMINI_MODELS.includes(model)) {
+    throw new HttpError(400, `"model" must be one of ${GEMINI_MODELS.join(', ')}.`);
+  }
+  return model;
+};
+
+const readPrompt = (body: Body): string => {
+  const prompt = body.prompt;
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, `"prompt" must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  return prompt;
+};
+
+// Sanitized again by the prompt builder; this only rejects oversized or malformed input
+const readInstruction = (body: Body): string | undefined => {
+  const instruction = body.instruction;
+  if (instruction === undefined || instruction === null) return undefined;
+  if (typeof instruction !== 'string' || instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw new HttpError(400, `"instruction" must be a string of at most ${MAX_INSTRUCTION_LENGTH} characters.`);
+  }
+  return instruction;
+};
+
+const readRegions = (body: Body) => {
+  const regions = body.regions;
+  if (!Array.isArray(regions) || regions.length === 0) {
+    throw new HttpError(400, `"regions" must be a non-empty array.`);
+  }
+  return regions.map((region: unknown, index) => {
+    if (!isPlainObject(region)) {
+      throw new HttpError(400, `"regions[${index}]" must be an object.`);
+    }
+    return {
+      maskImage: readImageField(region, 'maskImage'),
+      objectImage: readImageField(region, 'objectImage'),
+      color: String(region.color ?? ''),
+      colorName: String(region.colorName ?? ''),
+    };
+  });
+};
+
+const routes: Record<string, (body: Body, signal: AbortSignal) => Promise<string>> = {
+  '/api/place': (body, signal) => geminiProvider.place({
+    baseImage: readImageField(body, 'baseImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    objectImage: readImageField(body, 'objectImage'),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/place-many': (body, signal) => geminiProvider.placeMany!({
+    baseImage: readImageField(body, 'baseImage'),
+    regionMap: readImageField(body, 'regionMap'),
+    regions: readRegions(body),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/erase': (body, signal) => geminiProvider.erase({
+    baseImage: readImageField(body, 'baseImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/harmonize': (body, signal) => geminiProvider.harmonize({
+    guideImage: readImageField(body, 'guideImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    objectImage: readImageField(body, 'objectImage'),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/isolate': (body, signal) => geminiProvider.isolate({
+    image: readImageField(body, 'image'),
+    model: readModel(body),
+  }, { signal }),
+  '/api/replace': (body, signal) => geminiProvider.replace({
+    baseImage: readImageField(body, 'baseImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    prompt: readPrompt(body),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/restyle': (body, signal) => geminiProvider.restyle({
+    baseImage: readImageField(body, 'baseImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    prompt: readPrompt(body),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/outpaint': (body, signal) => geminiProvider.outpaint({
+    baseImage: readImageField(body, 'baseImage'),
+    maskImage: readImageField(body, 'maskImage'),
+    prompt: body.prompt === undefined || body.prompt === '' ? undefined : readPrompt(body),
+    model: readModel(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+  '/api/generate': (body, signal) => geminiProvider.generate({
+    prompt: readPrompt(body),
+    instruction: readInstruction(body),
+  }, { signal }),
+};
+
+// HTTP status for provider failures, so clients and logs can tell them apart
+const STATUS_BY_CODE: Record<AiErrorCode, number> = {
+  [AiErrorCode.MISSING_API_KEY]: 500,
+  [AiErrorCode.INVALID_API_KEY]: 502,
+  [AiErrorCode.QUOTA_EXCEEDED]: 429,
+  [AiErrorCode.SAFETY_BLOCKED]: 422,
+  [AiErrorCode.EMPTY_RESPONSE]: 502,
+  [AiErrorCode.NETWORK]: 502,
+  [AiErrorCode.TIMEOUT]: 504,
+  [AiErrorCode.PAYLOAD_TOO_LARGE]: 413,
+  [AiErrorCode.INVALID_REQUEST]: 400,
+  [AiErrorCode.UNKNOWN]: 500,
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (res: ServerResponse, status: number, code: AiErrorCode, message: string, headers?: Record<string, string>) => {
+  sendJson(res, status, { error: { code, message } }, headers);
+};
+
+const readBody = (req: IncomingMessage, maxBodyBytes: number): Promise<Body> => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > maxBodyBytes) {
+    reject(new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes.`, AiErrorCode.PAYLOAD_TOO_LARGE));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBodyBytes) {
+      // Stop reading; the handler answers 413 and closes the connection once that is written
+      req.off('data', onData);
+      req.pause();
+      reject(new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes.`, AiErrorCode.PAYLOAD_TOO_LARGE));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      if (!isPlainObject(body)) throw new Error();
+      resolve(body);
+    } catch {
+      reject(new HttpError(400, "Request body must be a JSON object."));
+    }
+  });
+  req.on('error', reject);
+});
+
+const getClientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const handleRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: ApiServerOptions,
+  rateLimiter: RateLimiter
+) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const route = routes[path];
+  if (!route) {
+    sendError(res, 404, AiErrorCode.UNKNOWN, `Unknown route ${path}.`);
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendError(res, 405, AiErrorCode.UNKNOWN, "Only POST is supported.", { Allow: 'POST' });
+    return;
+  }
+
+  const limit = rateLimiter.check(getClientId(req, options.trustProxy));
+  if (!limit.allowed) {
+    sendError(res, 429, AiErrorCode.QUOTA_EXCEEDED, "Too many requests, please slow down.", {
+      'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+    });
+    return;
+  }
+
+  // A closed connection (e.g. the user pressed 取消) cancels the upstream call
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const signal = AbortSignal.any([controller.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]);
+
+  const startedAt = Date.now();
+  try {
+    const image = await route(await readBody(req, options.maxBodyBytes), signal);
+    sendJson(res, 200, { image });
+    console.log(`${path} 200 ${Date.now() - startedAt}ms`);
+  } catch (error) {
+    if (controller.signal.aborted) return; // Client is gone
+    if (error instanceof HttpError) {
+      if (error.status === 413) {
+        // The rest of the body was never read, so the connection cannot be reused
+        res.once('finish', () => req.destroy());
+        sendError(res, error.status, error.code, error.message, { Connection: 'close' });
+      } else {
+        sendError(res, error.status, error.code, error.message);
+      }
+      console.log(`${path} ${error.status} ${error.message}`);
+      return;
+    }
+    const aiError = toAiServiceError(error);
+    sendError(res, STATUS_BY_CODE[aiError.code], aiError.code, aiError.message);
+    console.log(`${path} ${STATUS_BY_CODE[aiError.code]} ${aiError.code}`);
+  }
+};
+
+export const createApiServer = (options: ApiServerOptions): Server => {
+  const rateLimiter = createRateLimiter(options.rateLimitPerMinute, 60 * 1000);
+  return createServer((req, res) => {
+    handleRequest(req, res, options, rateLimiter).catch(error => {
+      console.error(error);
+      sendError(res, 500, AiErrorCode.UNKNOWN, "Internal server error.");
+    });
+  });
+};
@@ -0,0 +1,32 @@
+import { createApiServer } from './app';
+
+// API proxy: the browser sends edit requests here and only this process knows the Gemini API key.
+// Routes and request validation live in app.ts.
+//
+// Configuration (environment or .env.local):
+//   GEMINI_API_KEY         required
+//   PORT / HOST            default 8787 / 127.0.0.1
+//   MAX_BODY_MB            request size limit, default 25
+//   RATE_LIMIT_PER_MINUTE  requests per client and minute, default 20
+//   TRUST_PROXY            set to 1 behind a reverse proxy (or the Vite dev server) to identify clients by X-Forwarded-For
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the environment
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+
+if (!process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+  console.warn("GEMINI_API_KEY is not set; every request will fail with MISSING_API_KEY.");
+}
+
+createApiServer({
+  maxBodyBytes: (Number(process.env.MAX_BODY_MB) || 25) * 1024 * 1024,
+  rateLimitPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20,
+  trustProxy: process.env.TRUST_PROXY === '1',
+}).listen(PORT, HOST, () => {
+  console.log(`API proxy listening on http://${HOST}:${PORT}`);
+});
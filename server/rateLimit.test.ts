@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows `limit` requests per window and counts down the remaining ones', () => {
+    const limiter = createRateLimiter(3, 1000);
+
+    expect(limiter.check('a', 0)).toEqual({ allowed: true, retryAfterMs: 0, remaining: 2 });
+    expect(limiter.check('a', 10).remaining).toBe(1);
+    expect(limiter.check('a', 20).remaining).toBe(0);
+    expect(limiter.check('a', 30)).toEqual({ allowed: false, retryAfterMs: 970, remaining: 0 });
+  });
+
+  it('slides the window instead of resetting it', () => {
+    const limiter = createRateLimiter(2, 1000);
+    limiter.check('a', 0);
+    limiter.check('a', 600);
+
+    expect(limiter.check('a', 999).allowed).toBe(false);
+    // The first hit leaves the window, the second one still counts
+    expect(limiter.check('a', 1000).allowed).toBe(true);
+    expect(limiter.check('a', 1001)).toEqual({ allowed: false, retryAfterMs: 599, remaining: 0 });
+    expect(limiter.check('a', 1600).allowed).toBe(true);
+  });
+
+  it('does not count rejected requests', () => {
+    const limiter = createRateLimiter(1, 1000);
+    limiter.check('a', 0);
+    limiter.check('a', 500);
+    limiter.check('a', 900);
+
+    expect(limiter.check('a', 1000).allowed).toBe(true);
+  });
+
+  it('keeps a separate window per client', () => {
+    const limiter = createRateLimiter(1, 1000);
+
+    expect(limiter.check('a', 0).allowed).toBe(true);
+    expect(limiter.check('b', 0).allowed).toBe(true);
+    expect(limiter.check('a', 1).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+// Sliding-window rate limiter keyed by client: at most `limit` requests within any `windowMs`.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // Wait until the next request would be allowed (0 when allowed)
+  remaining: number;
+}
+
+export interface RateLimiter {
+  check: (key: string, now?: number) => RateLimitResult;
+}
+
+// Forget idle clients once the table grows beyond this many entries
+const SWEEP_THRESHOLD = 10_000;
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (timestamps: number[], now: number) => {
+    while (timestamps.length > 0 && timestamps[0] <= now - windowMs) timestamps.shift();
+  };
+
+  const sweep = (now: number) => {
+    for (const [key, timestamps] of hits) {
+      prune(timestamps, now);
+      if (timestamps.length === 0) hits.delete(key);
+    }
+  };
+
+  return {
+    check: (key, now = Date.now()) => {
+      if (hits.size > SWEEP_THRESHOLD) sweep(now);
+      const timestamps = hits.get(key) ?? [];
+      prune(timestamps, now);
+
+      if (timestamps.length >= limit) {
+        hits.set(key, timestamps);
+        return { allowed: false, retryAfterMs: timestamps[0] + windowMs - now, remaining: 0 };
+      }
+      timestamps.push(now);
+      hits.set(key, timestamps);
+      return { allowed: true, retryAfterMs: 0, remaining: limit - timestamps.length };
+    },
+  };
+};
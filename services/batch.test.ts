@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { createResultsZip, fitMaskToImage, matchMaskName, runQueue } from './batch';
+import { installCanvas, makeImage, readPixels, pixelAt } from '../test/canvas';
+
+describe('matchMaskName', () => {
+  const masks = ['Kitchen.png', 'living-room_mask.png', 'garden-mask.jpg', 'hall.mask.png', 'kitchen-old.png'];
+
+  it('matches masks by file stem, ignoring case and extension', () => {
+    expect(matchMaskName('kitchen.jpg', masks)).toBe('Kitchen.png');
+  });
+
+  it('matches "_mask", "-mask" and ".mask" suffixes', () => {
+    expect(matchMaskName('living-room.jpg', masks)).toBe('living-room_mask.png');
+    expect(matchMaskName('garden.webp', masks)).toBe('garden-mask.jpg');
+    expect(matchMaskName('hall.jpeg', masks)).toBe('hall.mask.png');
+  });
+
+  it('does not match other names that merely share a prefix', () => {
+    expect(matchMaskName('kitchen-old-2.jpg', masks)).toBeUndefined();
+    expect(matchMaskName('hall-mask-2.png', masks)).toBeUndefined();
+    expect(matchMaskName('bath.png', [])).toBeUndefined();
+  });
+});
+
+describe('runQueue', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  // Worker that finishes when `release(index)` is called
+  const controllable = () => {
+    const pending = new Map<number, () => void>();
+    let running = 0;
+    let maxRunning = 0;
+    const worker = vi.fn((index: number) => new Promise<void>(resolve => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      pending.set(index, () => {
+        running--;
+        resolve();
+      });
+    }));
+    const release = async (index: number) => {
+      pending.get(index)!();
+      await new Promise(resolve => setTimeout(resolve, 0));
+    };
+    return { worker, release, maxRunning: () => maxRunning };
+  };
+
+  it('runs every index with at most `concurrency` workers in flight', async () => {
+    const { worker, release, maxRunning } = controllable();
+    const done = runQueue(5, 2, worker);
+
+    expect(worker.mock.calls.map(call => call[0])).toEqual([0, 1]);
+    await release(1);
+    expect(worker.mock.calls.map(call => call[0])).toEqual([0, 1, 2]);
+    for (const index of [0, 2, 3, 4]) await release(index);
+    await done;
+
+    expect(worker).toHaveBeenCalledTimes(5);
+    expect(maxRunning()).toBe(2);
+  });
+
+  it('keeps going after a failed item', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const worker = vi.fn(async (index: number) => {
+      if (index === 0) throw new Error('Failed');
+    });
+
+    await runQueue(3, 1, worker);
+
+    expect(worker).toHaveBeenCalledTimes(3);
+  });
+
+  it('starts no new items once the signal aborts', async () => {
+    const controller = new AbortController();
+    const { worker, release } = controllable();
+    const done = runQueue(5, 2, worker, controller.signal);
+
+    controller.abort();
+    await release(0);
+    await release(1);
+    await done;
+
+    expect(worker).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing for an empty queue', async () => {
+    const worker = vi.fn(async () => {});
+
+    await runQueue(0, 3, worker);
+
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
+
+describe('fitMaskToImage', () => {
+  beforeAll(installCanvas);
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('stretches an exported mask to the image size', async () => {
+    const mask = makeImage(2, 2, '#000000', ctx => {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, 1, 2);
+    });
+
+    const pixels = await readPixels(await fitMaskToImage(mask, 8, 4));
+
+    expect([pixels.width, pixels.height]).toEqual([8, 4]);
+    expect(pixelAt(pixels, 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(pixels, 6, 2)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('turns a painted mask (colour on transparent) into White on Black', async () => {
+    const painted = makeImage(4, 4, 'rgba(0, 0, 0, 0)', ctx => {
+      ctx.clearRect(0, 0, 4, 4);
+      ctx.fillStyle = 'rgb(255, 0, 0)';
+      ctx.fillRect(2, 0, 2, 4);
+    });
+
+    const pixels = await readPixels(await fitMaskToImage(painted, 4, 4));
+
+    expect(pixelAt(pixels, 3, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(pixels, 0, 1)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('createResultsZip', () => {
+  it('names results after their sources and numbers duplicates', async () => {
+    const image = 'data:image/png;base64,AAEC';
+    const zip = createResultsZip([
+      { name: 'photo.jpg', image },
+      { name: 'photo.webp', image },
+      { name: '.jpg', image },
+    ]);
+    const content = new TextDecoder().decode(await zip.arrayBuffer());
+
+    for (const name of ['photo.png', 'photo-2.png', 'image.png']) expect(content).toContain(name);
+  });
+});
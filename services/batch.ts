@@ -0,0 +1,123 @@
+import { ImageEditProvider, RetryPolicy } from "../types";
+import { runWithRetry, isAbortError } from "./requestPolicy";
+import { loadImage, createCanvas, fitResultToSize } from "../utils/image";
+import { protectUnmaskedArea } from "../utils/composite";
+import { cropForRegion, stitchRegion } from "../utils/region";
+import { createZip } from "../utils/zip";
+
+// Batch mode: one placement or erase applied to many base images through a concurrency-limited queue.
+
+export type BatchOperation = 'place' | 'erase';
+
+export interface BatchJob {
+  operation: BatchOperation;
+  provider: ImageEditProvider;
+  model: string;
+  preferredSize: number;
+  objectImage?: string; // Required for 'place'
+  instruction?: string;
+  retryPolicy: RetryPolicy;
+  protectUnmasked: boolean;
+  autoCropRegion: boolean;
+}
+
+// Scales a mask to the given size and turns it into a grey-level White-on-Black mask.
+// Accepts exported masks (White on Black) as well as painted ones (colour on transparent).
+// Because the mask is stretched to the image, a shared mask acts in normalized coordinates.
+export const fitMaskToImage = async (maskSrc: string, width: number, height: number): Promise<string> => {
+  const mask = await loadImage(maskSrc);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = Math.max(data[i], data[i + 1], data[i + 2]);
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export interface BatchImageResult {
+  image: string;
+  aspectMismatch: boolean; // The model returned a different aspect ratio than requested (see fitResultToSize)
+}
+
+// Runs one base image through the same pipeline as the editor: optional crop, provider call with
+// retries, aspect-safe fitting and compositing over the base image
+export const processBatchImage = async (image: string, mask: string, job: BatchJob, signal: AbortSignal): Promise<BatchImageResult> => {
+  const { width, height } = await loadImage(image);
+  const maskImage = await fitMaskToImage(mask, width, height);
+  const crop = job.autoCropRegion ? await cropForRegion(image, maskImage, job.preferredSize) : null;
+  const request = crop ? { baseImage: crop.baseImage, maskImage: crop.maskImage } : { baseImage: image, maskImage };
+
+  const raw = await runWithRetry(
+    s => job.operation === 'place'
+      ? job.provider.place({ ...request, objectImage: job.objectImage ?? '', model: job.model, instruction: job.instruction }, { signal: s })
+      : job.provider.erase({ ...request, model: job.model, instruction: job.instruction }, { signal: s }),
+    job.retryPolicy,
+    signal
+  );
+  const stitched = crop ? await stitchRegion(image, raw, crop.region) : null;
+  const fitted = await fitResultToSize(stitched?.image ?? raw, width, height);
+  return {
+    image: (await protectUnmaskedArea(image, fitted.image, maskImage, job.protectUnmasked)).image,
+    aspectMismatch: (stitched ?? fitted).aspectMismatch,
+  };
+};
+
+// Calls `worker` for every index with at most `concurrency` calls in flight.
+// Worker errors are the worker's business; the queue only stops early when `signal` aborts.
+export const runQueue = async (
+  count: number,
+  concurrency: number,
+  worker: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < count && !signal?.aborted) {
+      const index = next++;
+      try {
+        await worker(index);
+      } catch (error) {
+        if (!isAbortError(error)) console.error(error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, lane));
+};
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.split(',')[1] ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Results as PNG files named after their source images; duplicate names get a numeric suffix
+export const createResultsZip = (results: { name: string; image: string }[]): Blob => {
+  const used = new Set<string>();
+  return createZip(results.map(({ name, image }) => {
+    const stem = name.replace(/\.[^.]+$/, '') || 'image';
+    let fileName = `${stem}.png`;
+    for (let n = 2; used.has(fileName); n++) fileName = `${stem}-${n}.png`;
+    used.add(fileName);
+    return { name: fileName, data: dataUrlToBytes(image) };
+  }));
+};
+
+// Pairs mask files with base images by file name: "photo.jpg" matches "photo.png", "photo_mask.png",
+// "photo-mask.png" and "photo.mask.png"
+export const matchMaskName = (imageName: string, maskNames: string[]): string | undefined => {
+  const stem = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase();
+  const imageStem = stem(imageName);
+  return maskNames.find(maskName => {
+    const maskStem = stem(maskName);
+    return maskStem === imageStem || maskStem.replace(/[._-]mask$/, '') === imageStem;
+  });
+};
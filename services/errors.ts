@@ -0,0 +1,126 @@
+import { AiErrorCode } from "../types";
+
+// Codes worth retrying automatically (see requestPolicy.ts)
+const RETRYABLE_CODES = [AiErrorCode.QUOTA_EXCEEDED, AiErrorCode.NETWORK, AiErrorCode.TIMEOUT];
+
+// Error thrown by every provider so that the UI can tell failure causes apart
+export class AiServiceError extends Error {
+  code: AiErrorCode;
+  status?: number; // HTTP status, if the failure came from a response
+  retryAfterMs?: number; // Server requested wait before the next attempt (Retry-After)
+  retryable: boolean;
+
+  constructor(
+    code: AiErrorCode,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'AiServiceError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+}
+
+// User facing title and actionable hint per error code
+export const AI_ERROR_MESSAGES: Record<AiErrorCode, { title: string; hint: string }> = {
+  [AiErrorCode.MISSING_API_KEY]: {
+    title: '未配置 API Key',
+    hint: '请在 .env.local 中设置 GEMINI_API_KEY 后重启 API 服务 (npm run server)，或切换到本地/模拟模型。',
+  },
+  [AiErrorCode.INVALID_API_KEY]: {
+    title: 'API Key 无效或无权限',
+    hint: '请检查 Key 是否正确、是否已启用对应模型的访问权限。',
+  },
+  [AiErrorCode.QUOTA_EXCEEDED]: {
+    title: '请求过于频繁或配额已用尽',
+    hint: '请稍后重试，或在控制台检查账户配额。',
+  },
+  [AiErrorCode.SAFETY_BLOCKED]: {
+    title: '内容被安全策略拦截',
+    hint: '模型拒绝了本次请求，请更换图片、物体或描述后重试。',
+  },
+  [AiErrorCode.EMPTY_RESPONSE]: {
+    title: '模型未返回图片',
+    hint: '可以直接重试，或调整涂抹区域 / 切换模型。',
+  },
+  [AiErrorCode.NETWORK]: {
+    title: '网络或服务异常',
+    hint: '请检查网络连接或服务地址后重试。',
+  },
+  [AiErrorCode.TIMEOUT]: {
+    title: '请求超时',
+    hint: '可以在"请求设置"中调大超时时间后重试。',
+  },
+  [AiErrorCode.PAYLOAD_TOO_LARGE]: {
+    title: '图片过大',
+    hint: '请求超过了 API 服务的大小限制 (MAX_BODY_MB)，请缩小底图或物体图片，或开启"自动裁剪局部发送"后重试。',
+  },
+  [AiErrorCode.INVALID_REQUEST]: {
+    title: '请求无效',
+    hint: '服务拒绝了本次请求的参数，请检查图片、蒙版和描述后重试，或切换模型。',
+  },
+  [AiErrorCode.UNKNOWN]: {
+    title: '处理失败',
+    hint: '发生未知错误，请重试。',
+  },
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+export const isSafetyFinishReason = (reason?: string) => !!reason && SAFETY_FINISH_REASONS.includes(reason);
+
+// fetch() rejects with a TypeError when the connection fails; the message depends on the runtime
+// ("Failed to fetch", "NetworkError when attempting to fetch resource.", "Load failed", Node's "fetch failed").
+// Other TypeErrors are programming errors and must not pass for network trouble.
+const NETWORK_ERROR_MESSAGE = /failed to fetch|fetch failed|networkerror|load failed|network request failed/i;
+
+export const isNetworkError = (error: unknown) => {
+  return error instanceof Error && error.name === 'TypeError' && NETWORK_ERROR_MESSAGE.test(error.message);
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const codeFromStatus = (status: number, message: string): AiErrorCode => {
+  if (status === 429) return AiErrorCode.QUOTA_EXCEEDED;
+  if (status === 401 || status === 403) return AiErrorCode.INVALID_API_KEY;
+  if (status === 400 && /api[ _]?key/i.test(message)) return AiErrorCode.INVALID_API_KEY;
+  if (status === 400) return AiErrorCode.INVALID_REQUEST;
+  if (status === 413) return AiErrorCode.PAYLOAD_TOO_LARGE;
+  if (status >= 500) return AiErrorCode.NETWORK;
+  return AiErrorCode.UNKNOWN;
+};
+
+// Normalizes anything thrown by the SDK, fetch() or the retry policy into an AiServiceError
+export const toAiServiceError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new AiServiceError(AiErrorCode.TIMEOUT, message, { cause: error });
+  }
+  if (isNetworkError(error)) {
+    return new AiServiceError(AiErrorCode.NETWORK, message, { cause: error });
+  }
+
+  const { status, retryAfterMs } = (error ?? {}) as { status?: unknown; retryAfterMs?: unknown };
+  if (typeof status === 'number') {
+    return new AiServiceError(codeFromStatus(status, message), message, {
+      status,
+      retryAfterMs: typeof retryAfterMs === 'number' ? retryAfterMs : undefined,
+      cause: error,
+    });
+  }
+
+  return new AiServiceError(AiErrorCode.UNKNOWN, message, { cause: error });
+};
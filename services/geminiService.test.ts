@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AiErrorCode } from '../types';
+import { AiServiceError } from './errors';
+import { placeObjectInImage, eraseObjectInImage, generateImageFromText } from './geminiService';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+const BASE = 'data:image/png;base64,QkFTRQ==';
+const MASK = 'data:image/png;base64,TUFTSw==';
+const OBJECT = 'data:image/png;base64,T0JK';
+
+const imageResponse = (data: string, mimeType = 'image/png') => ({
+  candidates: [{ content: { parts: [{ text: 'Here you go' }, { inlineData: { data, mimeType } }] } }],
+});
+
+// The service logs failures before rethrowing them; keep the test output readable
+const expectAiError = async (promise: Promise<string>, code: AiErrorCode) => {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(AiServiceError);
+  expect((error as AiServiceError).code).toBe(code);
+};
+
+beforeEach(() => {
+  process.env.GEMINI_API_KEY = 'test-key';
+  generateContent.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('placeObjectInImage', () => {
+  it('returns the generated image as a Data URL', async () => {
+    generateContent.mockResolvedValue(imageResponse('UkVTVUxU'));
+
+    await expect(placeObjectInImage(BASE, MASK, OBJECT, 'gemini-2.5-flash-image')).resolves.toBe('data:image/png;base64,UkVTVUxU');
+
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe('gemini-2.5-flash-image');
+    expect(request.contents.parts.slice(1).map((part: { inlineData: { data: string } }) => part.inlineData.data))
+      .toEqual(['QkFTRQ==', 'TUFTSw==', 'T0JK']);
+  });
+
+  it('appends the instruction to the prompt', async () => {
+    generateContent.mockResolvedValue(imageResponse('UkVTVUxU'));
+
+    await placeObjectInImage(BASE, MASK, OBJECT, 'gemini-2.5-flash-image', undefined, 'Add a soft contact shadow.');
+
+    expect(generateContent.mock.calls[0][0].contents.parts[0].text).toContain('Add a soft contact shadow.');
+  });
+
+  it('passes the abort signal to the SDK', async () => {
+    generateContent.mockResolvedValue(imageResponse('UkVTVUxU'));
+    const controller = new AbortController();
+
+    await placeObjectInImage(BASE, MASK, OBJECT, 'gemini-2.5-flash-image', controller.signal);
+
+    expect(generateContent.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+  });
+
+  it('reports an answer without an image as EMPTY_RESPONSE', async () => {
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Sorry' }] }, finishReason: 'STOP' }] });
+
+    await expectAiError(placeObjectInImage(BASE, MASK, OBJECT), AiErrorCode.EMPTY_RESPONSE);
+  });
+
+  it('reports a safety finish reason as SAFETY_BLOCKED', async () => {
+    generateContent.mockResolvedValue({ candidates: [{ content: { parts: [] }, finishReason: 'IMAGE_SAFETY' }] });
+
+    await expectAiError(placeObjectInImage(BASE, MASK, OBJECT), AiErrorCode.SAFETY_BLOCKED);
+  });
+
+  it('fails with MISSING_API_KEY without calling the SDK', async () => {
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.API_KEY;
+
+    await expectAiError(placeObjectInImage(BASE, MASK, OBJECT), AiErrorCode.MISSING_API_KEY);
+    await expect(placeObjectInImage(BASE, MASK, OBJECT)).rejects.toThrow('GEMINI_API_KEY');
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
+
+describe('eraseObjectInImage', () => {
+  it('returns the generated image with its mime type', async () => {
+    generateContent.mockResolvedValue(imageResponse('RVJBU0VE', 'image/jpeg'));
+
+    await expect(eraseObjectInImage(BASE, MASK)).resolves.toBe('data:image/jpeg;base64,RVJBU0VE');
+
+    const parts = generateContent.mock.calls[0][0].contents.parts;
+    expect(parts).toHaveLength(3);
+  });
+
+  it('reports a response without candidates as EMPTY_RESPONSE', async () => {
+    generateContent.mockResolvedValue({});
+
+    await expectAiError(eraseObjectInImage(BASE, MASK), AiErrorCode.EMPTY_RESPONSE);
+  });
+
+  it('maps HTTP errors from the SDK to error codes', async () => {
+    generateContent.mockRejectedValue(Object.assign(new Error('Resource exhausted'), { status: 429 }));
+
+    await expectAiError(eraseObjectInImage(BASE, MASK), AiErrorCode.QUOTA_EXCEEDED);
+  });
+});
+
+describe('generateImageFromText', () => {
+  it('returns the generated image as a Data URL', async () => {
+    generateContent.mockResolvedValue(imageResponse('R0VO'));
+
+    await expect(generateImageFromText('a red chair')).resolves.toBe('data:image/png;base64,R0VO');
+    expect(generateContent.mock.calls[0][0].contents.parts[0].text).toContain('a red chair');
+  });
+
+  it('reports a blocked prompt as SAFETY_BLOCKED', async () => {
+    generateContent.mockResolvedValue({ promptFeedback: { blockReason: 'SAFETY' } });
+
+    await expectAiError(generateImageFromText('a red chair'), AiErrorCode.SAFETY_BLOCKED);
+  });
+});
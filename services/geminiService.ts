@@ -1,9 +1,14 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { ImageEditProvider, AiErrorCode, PlaceRegionInput } from "../types";
+import { AiServiceError, toAiServiceError, isSafetyFinishReason } from "./errors";
+import { isAbortError } from "./requestPolicy";
+import { withInstruction, buildGeneratePrompt, sanitizeInstruction } from "./prompts";
 
 const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
+  // API_KEY is the older name of the variable and still accepted
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
   if (!apiKey) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
+    throw new AiServiceError(AiErrorCode.MISSING_API_KEY, "Gemini API key is missing. Set GEMINI_API_KEY in the environment or in .env.local.");
   }
   return new GoogleGenAI({ apiKey });
 };
@@ -13,7 +18,27 @@ const cleanBase64 = (dataUrl: string) => {
   return dataUrl.split(',')[1];
 };
 
-export const generateImageFromText = async (prompt: string): Promise<string> => {
+// Returns the first inline image of the response as a Data URL
+const extractImage = (response: GenerateContentResponse, errorMessage: string): string => {
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData && part.inlineData.data) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+
+  // Distinguish a content-policy refusal from a plain empty answer
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason || isSafetyFinishReason(candidate?.finishReason)) {
+    throw new AiServiceError(
+      AiErrorCode.SAFETY_BLOCKED,
+      `Request blocked by safety filters (${blockReason || candidate?.finishReason}).`
+    );
+  }
+  throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, errorMessage);
+};
+
+export const generateImageFromText = async (prompt: string, signal?: AbortSignal, instruction?: string): Promise<string> => {
   const ai = getAiClient();
   
   // Using gemini-2.5-flash-image for generation as per guidelines for general tasks
@@ -23,21 +48,17 @@ export const generateImageFromText = async (prompt: string): Promise<string> =>
     const response = await ai.models.generateContent({
       model,
       contents: {
-        parts: [{ text: `Generate an isolated object on a white background: ${prompt}` }]
-      }
+        parts: [{ text: buildGeneratePrompt(prompt, instruction) }]
+      },
+      config: { abortSignal: signal }
     });
 
     // Check for inlineData (image)
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-      }
-    }
-    
-    throw new Error("No image generated from text.");
+    return extractImage(response, "No image generated from text.");
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error generating image from text:", error);
-    throw error;
+    throw toAiServiceError(error);
   }
 };
 
@@ -45,7 +66,9 @@ export const placeObjectInImage = async (
   baseImage: string,
   maskImage: string,
   objectImage: string,
-  modelName: string = 'gemini-3-pro-image-preview'
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
 ): Promise<string> => {
   const ai = getAiClient();
   const model = modelName;
@@ -75,7 +98,7 @@ export const placeObjectInImage = async (
       model,
       contents: {
         parts: [
-          { text: prompt },
+          { text: withInstruction(prompt, instruction) },
           {
             inlineData: {
               mimeType: 'image/png',
@@ -95,27 +118,95 @@ export const placeObjectInImage = async (
             }
           }
         ]
-      }
+      },
+      config: { abortSignal: signal }
     });
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-      }
-    }
-
-    throw new Error("No image returned from placement operation.");
+    return extractImage(response, "No image returned from placement operation.");
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error placing object:", error);
-    throw error;
+    throw toAiServiceError(error);
+  }
+};
+
+// Several objects in one pass: the region map tells the model which object goes into which coloured area
+export const placeObjectsInImage = async (
+  baseImage: string,
+  regionMap: string,
+  regions: PlaceRegionInput[],
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const ai = getAiClient();
+  const model = modelName;
+
+  const regionList = regions.map((region, index) => `    ${index + 3}. Object Image for the ${region.colorName} region.`).join('\n');
+  const prompt = `
+    Role: Precision Photo Compositor.
+    
+    INPUTS:
+    1. Base Image (Target scene).
+    2. Region Map (Strict alignment guide. Each colored area is one placement target, Black = Protected).
+${regionList}
+
+    TASK:
+    Insert every Object Image into the Base Image EXACTLY within the area of its color in the Region Map.
+
+    MANDATORY RULES:
+    1. **COORDINATE ACCURACY**: The Region Map is perfectly aligned (1:1) with the Base Image. Each object MUST occupy exactly the pixels of its own color.
+    2. **ONE OBJECT PER REGION**: Never swap objects between regions, never duplicate or omit an object.
+    3. **ASPECT RATIO**: Maintain the original aspect ratio of every Object Image. Scale each uniformly to fit inside its region.
+    4. **INTEGRATION**: Blend all objects into the scene with consistent lighting and shadows, and let them interact naturally where they are close.
+    5. **PROTECTION**: The Black area of the Region Map MUST remain pixel-identical to the Base Image.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { text: withInstruction(prompt, instruction) },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(baseImage)
+            }
+          },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(regionMap)
+            }
+          },
+          ...regions.map(region => ({
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(region.objectImage)
+            }
+          }))
+        ]
+      },
+      config: { abortSignal: signal }
+    });
+
+    return extractImage(response, "No image returned from placement operation.");
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error placing objects:", error);
+    throw toAiServiceError(error);
   }
 };
 
 export const eraseObjectInImage = async (
   baseImage: string,
   maskImage: string,
-  modelName: string = 'gemini-3-pro-image-preview'
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
 ): Promise<string> => {
   const ai = getAiClient();
   const model = modelName;
@@ -138,7 +229,7 @@ export const eraseObjectInImage = async (
       model,
       contents: {
         parts: [
-          { text: prompt },
+          { text: withInstruction(prompt, instruction) },
           {
             inlineData: {
               mimeType: 'image/png',
@@ -152,19 +243,287 @@ export const eraseObjectInImage = async (
             }
           }
         ]
-      }
+      },
+      config: { abortSignal: signal }
     });
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-      }
-    }
-
-    throw new Error("No image returned from erase operation.");
+    return extractImage(response, "No image returned from erase operation.");
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error erasing object:", error);
-    throw error;
+    throw toAiServiceError(error);
+  }
+};
+
+export const harmonizeObjectInImage = async (
+  guideImage: string,
+  maskImage: string,
+  objectImage: string,
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const ai = getAiClient();
+  const model = modelName;
+
+  const prompt = `
+    Role: Photo Compositor.
+    
+    INPUTS:
+    1. Guide Image (Target scene with the object already pasted at its final position, size and rotation).
+    2. Mask Image (White = Object footprint, the only area you may change. Black = Protected).
+    3. Object Image (Clean reference of the pasted object).
+
+    TASK:
+    Make the pasted object look like it was photographed in the scene.
+
+    MANDATORY RULES:
+    1. **KEEP PLACEMENT**: Do not move, resize, rotate or reshape the object. Its silhouette in the Guide Image is final.
+    2. **HARMONIZE ONLY**: Adjust lighting, color temperature, shading and sharpness of the object to match the scene. Add natural contact shadows and reflections inside the White area.
+    3. **CLEAN EDGES**: Remove cut-out halos or hard edges left by the paste.
+    4. **IDENTITY**: Keep the object's details and design identical to the Object Image.
+    5. **PROTECTION**: The Black area of the mask MUST remain pixel-identical to the Guide Image.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { text: withInstruction(prompt, instruction) },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(guideImage)
+            }
+          },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(maskImage)
+            }
+          },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(objectImage)
+            }
+          }
+        ]
+      },
+      config: { abortSignal: signal }
+    });
+
+    return extractImage(response, "No image returned from harmonize operation.");
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error harmonizing object:", error);
+    throw toAiServiceError(error);
+  }
+};
+
+// The model cannot return transparency, so it is asked for a flat chroma-key backdrop that is keyed out locally
+export const isolateObjectInImage = async (
+  image: string,
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = getAiClient();
+  const model = modelName;
+
+  const prompt = `
+    Role: Product Photo Retoucher.
+
+    TASK:
+    Cut out the main object of the image and place it on a perfectly flat, pure green (#00FF00) background.
+
+    MANDATORY RULES:
+    1. **IDENTITY**: Keep the object's shape, size, position, details and colors exactly as in the input.
+    2. **BACKGROUND**: Every non-object pixel must be pure #00FF00. No gradients, shadows, floor or reflections.
+    3. **EDGES**: Keep fine edges (hair, fur, thin parts) crisp. Do not add a green tint to the object.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { text: prompt },
+          {
+            inlineData: {
+              mimeType: 'image/png',
+              data: cleanBase64(image)
+            }
+          }
+        ]
+      },
+      config: { abortSignal: signal }
+    });
+
+    return extractImage(response, "No image returned from isolate operation.");
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error isolating object:", error);
+    throw toAiServiceError(error);
   }
-};
\ No newline at end of file
+};
+
+// Shared request for the prompt-driven edits below: instructions, base image, mask
+const editWithMask = async (
+  prompt: string,
+  baseImage: string,
+  maskImage: string,
+  modelName: string,
+  errorMessage: string,
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const ai = getAiClient();
+  const response = await ai.models.generateContent({
+    model: modelName,
+    contents: {
+      parts: [
+        { text: withInstruction(prompt, instruction) },
+        {
+          inlineData: {
+            mimeType: 'image/png',
+            data: cleanBase64(baseImage)
+          }
+        },
+        {
+          inlineData: {
+            mimeType: 'image/png',
+            data: cleanBase64(maskImage)
+          }
+        }
+      ]
+    },
+    config: { abortSignal: signal }
+  });
+  return extractImage(response, errorMessage);
+};
+
+export const replaceRegionInImage = async (
+  baseImage: string,
+  maskImage: string,
+  description: string,
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const prompt = `
+    Role: Precision Image Editor.
+    
+    INPUTS:
+    1. Base Image (Target scene).
+    2. Mask Image (Strict alignment guide. White = Edit Area, Black = Protected).
+
+    TASK:
+    Replace the content of the White area with: """${sanitizeInstruction(description)}"""
+
+    MANDATORY RULES:
+    1. **COORDINATE ACCURACY**: The Mask Image is perfectly aligned (1:1) with the Base Image. The new content MUST fill the White area and stay inside it.
+    2. **INTEGRATION**: Match the scene's perspective, lighting, shadows and grain so the new content looks photographed in place.
+    3. **PROTECTION**: The Black area of the mask MUST remain pixel-identical to the Base Image.
+  `;
+
+  try {
+    return await editWithMask(prompt, baseImage, maskImage, modelName, "No image returned from replace operation.", signal, instruction);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error replacing region:", error);
+    throw toAiServiceError(error);
+  }
+};
+
+export const restyleRegionInImage = async (
+  baseImage: string,
+  maskImage: string,
+  style: string,
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const prompt = `
+    Role: Material and Color Retoucher.
+    
+    INPUTS:
+    1. Base Image (Target scene).
+    2. Mask Image (Strict alignment guide. White = Edit Area, Black = Protected).
+
+    TASK:
+    Change the material, color or finish of what is inside the White area to: """${sanitizeInstruction(style)}"""
+
+    MANDATORY RULES:
+    1. **KEEP STRUCTURE**: Do not change shapes, outlines, folds, perspective or position. Only the surface appearance changes.
+    2. **KEEP LIGHTING**: Preserve the existing highlights, shadows and reflections, re-rendered for the new material.
+    3. **PROTECTION**: The Black area of the mask MUST remain pixel-identical to the Base Image.
+  `;
+
+  try {
+    return await editWithMask(prompt, baseImage, maskImage, modelName, "No image returned from restyle operation.", signal, instruction);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error restyling region:", error);
+    throw toAiServiceError(error);
+  }
+};
+
+export const outpaintImage = async (
+  baseImage: string,
+  maskImage: string,
+  description: string = '',
+  modelName: string = 'gemini-3-pro-image-preview',
+  signal?: AbortSignal,
+  instruction?: string
+): Promise<string> => {
+  const text = sanitizeInstruction(description);
+  const prompt = `
+    Role: Photo Extension Artist.
+    
+    INPUTS:
+    1. Base Image (A photo on a larger canvas; the grey border is empty space to fill).
+    2. Mask Image (Strict alignment guide. White = Area to fill, Black = Original photo).
+
+    TASK:
+    Extend the photo into the White area so the result looks like one wider shot of the same scene.${text ? `
+    The extended area should show: """${text}"""` : ''}
+
+    MANDATORY RULES:
+    1. **SAME CANVAS**: Return an image with exactly the same size and aspect ratio as the Base Image. Do not crop or rescale the original photo.
+    2. **CONTINUITY**: Continue perspective, horizon, lighting, textures and objects cut by the border seamlessly. No frames, borders or grey remains.
+    3. **PROTECTION**: The Black area of the mask MUST remain pixel-identical to the Base Image.
+  `;
+
+  try {
+    return await editWithMask(prompt, baseImage, maskImage, modelName, "No image returned from outpaint operation.", signal, instruction);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error outpainting image:", error);
+    throw toAiServiceError(error);
+  }
+};
+
+export const geminiProvider: ImageEditProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  place: ({ baseImage, maskImage, objectImage, model, instruction }, options) =>
+    placeObjectInImage(baseImage, maskImage, objectImage, model, options?.signal, instruction),
+  placeMany: ({ baseImage, regionMap, regions, model, instruction }, options) =>
+    placeObjectsInImage(baseImage, regionMap, regions, model, options?.signal, instruction),
+  erase: ({ baseImage, maskImage, model, instruction }, options) =>
+    eraseObjectInImage(baseImage, maskImage, model, options?.signal, instruction),
+  harmonize: ({ guideImage, maskImage, objectImage, model, instruction }, options) =>
+    harmonizeObjectInImage(guideImage, maskImage, objectImage, model, options?.signal, instruction),
+  isolate: ({ image, model }, options) => isolateObjectInImage(image, model, options?.signal),
+  replace: ({ baseImage, maskImage, prompt, model, instruction }, options) =>
+    replaceRegionInImage(baseImage, maskImage, prompt, model, options?.signal, instruction),
+  restyle: ({ baseImage, maskImage, prompt, model, instruction }, options) =>
+    restyleRegionInImage(baseImage, maskImage, prompt, model, options?.signal, instruction),
+  outpaint: ({ baseImage, maskImage, prompt, model, instruction }, options) =>
+    outpaintImage(baseImage, maskImage, prompt, model, options?.signal, instruction),
+  generate: ({ prompt, instruction }, options) => generateImageFromText(prompt, options?.signal, instruction),
+};
@@ -0,0 +1,121 @@
+import { ImageEditProvider, AiErrorCode } from "../types";
+import { AiServiceError, parseRetryAfter, toAiServiceError } from "./errors";
+import { isAbortError } from "./requestPolicy";
+import { sanitizeInstruction } from "./prompts";
+
+// Base URL of a local inpainting server (e.g. a small wrapper around Stable Diffusion or LaMa).
+// The server is expected to implement:
+//   POST /place    { image, mask, object, model, instruction? } -> { image }
+//   POST /erase    { image, mask, model, instruction? }         -> { image }
+//   POST /harmonize { image, mask, object, model, instruction? } -> { image }  (image already contains the pasted object)
+//   POST /isolate  { image, model }               -> { image }  (transparent PNG or object on a flat background)
+//   POST /replace  { image, mask, prompt, model, instruction? }  -> { image }  (repaint the mask from the description)
+//   POST /restyle  { image, mask, prompt, model, instruction? }  -> { image }  (new material / colour, same shapes)
+//   POST /outpaint { image, mask, prompt?, model, instruction? } -> { image }  (image is already expanded, mask marks the new area)
+//   POST /generate { prompt, instruction? }       -> { image }
+// Images are exchanged as base64 PNG strings without the Data URL prefix. `instruction` is the
+// sanitized free-text user guidance (see services/prompts.ts); servers may ignore it.
+const getBaseUrl = () => (process.env.LOCAL_INPAINT_URL || 'http://127.0.0.1:7860').replace(/\/+$/, '');
+
+// Helper to remove data:image/...;base64, prefix
+const cleanBase64 = (dataUrl: string) => {
+  return dataUrl.split(',')[1];
+};
+
+const postForImage = async (
+  path: string,
+  body: Record<string, unknown>,
+  errorMessage: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw toAiServiceError(Object.assign(
+      new Error(`Local inpaint server responded with ${response.status} ${response.statusText}`),
+      { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+    ));
+  }
+
+  const json = await response.json();
+  const image: string | undefined = json?.image;
+  if (!image) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, errorMessage);
+  }
+  return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+};
+
+// Logs and normalizes like the other providers; cancellations pass through untouched
+const withErrorHandling = async (label: string, request: () => Promise<string>): Promise<string> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error ${label}:`, error);
+    throw toAiServiceError(error);
+  }
+};
+
+export const localInpaintProvider: ImageEditProvider = {
+  id: 'local',
+  name: 'Local Inpaint Server',
+  place: ({ baseImage, maskImage, objectImage, model, instruction }, options) => withErrorHandling("placing object", () =>
+    postForImage('/place', {
+      image: cleanBase64(baseImage),
+      mask: cleanBase64(maskImage),
+      object: cleanBase64(objectImage),
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from placement operation.", options?.signal)),
+  erase: ({ baseImage, maskImage, model, instruction }, options) => withErrorHandling("erasing object", () =>
+    postForImage('/erase', {
+      image: cleanBase64(baseImage),
+      mask: cleanBase64(maskImage),
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from erase operation.", options?.signal)),
+  harmonize: ({ guideImage, maskImage, objectImage, model, instruction }, options) => withErrorHandling("harmonizing object", () =>
+    postForImage('/harmonize', {
+      image: cleanBase64(guideImage),
+      mask: cleanBase64(maskImage),
+      object: cleanBase64(objectImage),
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from harmonize operation.", options?.signal)),
+  isolate: ({ image, model }, options) => withErrorHandling("isolating object", () =>
+    postForImage('/isolate', {
+      image: cleanBase64(image),
+      model,
+    }, "No image returned from isolate operation.", options?.signal)),
+  replace: ({ baseImage, maskImage, prompt, model, instruction }, options) => withErrorHandling("replacing region", () =>
+    postForImage('/replace', {
+      image: cleanBase64(baseImage),
+      mask: cleanBase64(maskImage),
+      prompt,
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from replace operation.", options?.signal)),
+  restyle: ({ baseImage, maskImage, prompt, model, instruction }, options) => withErrorHandling("restyling region", () =>
+    postForImage('/restyle', {
+      image: cleanBase64(baseImage),
+      mask: cleanBase64(maskImage),
+      prompt,
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from restyle operation.", options?.signal)),
+  outpaint: ({ baseImage, maskImage, prompt, model, instruction }, options) => withErrorHandling("outpainting image", () =>
+    postForImage('/outpaint', {
+      image: cleanBase64(baseImage),
+      mask: cleanBase64(maskImage),
+      prompt,
+      model,
+      instruction: sanitizeInstruction(instruction) || undefined,
+    }, "No image returned from outpaint operation.", options?.signal)),
+  generate: ({ prompt, instruction }, options) => withErrorHandling("generating image from text", () =>
+    postForImage('/generate', { prompt, instruction: sanitizeInstruction(instruction) || undefined }, "No image generated from text.", options?.signal)),
+};
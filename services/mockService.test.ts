@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { AiErrorCode } from '../types';
+import { AiServiceError } from './errors';
+import { mockProvider } from './mockService';
+import { exportMask } from '../utils/image';
+import { DEFAULT_MASK_EXPORT_POLICY } from '../utils/mask';
+import { installCanvas, makeImage, readPixels, pixelAt } from '../test/canvas';
+
+// 8×8 grey-blue base with a White 4×4 mask in the top-left corner
+const BASE = makeImage(8, 8, 'rgb(40, 80, 120)');
+const MASK = makeImage(8, 8, '#000000', ctx => {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, 4, 4);
+});
+const EMPTY_MASK = makeImage(8, 8, '#000000');
+const OBJECT = makeImage(2, 1, 'rgb(255, 0, 0)');
+
+const expectAiError = async (promise: Promise<string>, code: AiErrorCode) => {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(AiServiceError);
+  expect((error as AiServiceError).code).toBe(code);
+};
+
+beforeAll(installCanvas);
+afterAll(() => vi.unstubAllGlobals());
+
+describe('mockProvider', () => {
+  it('places the object centered in the mask bounds, keeping its aspect ratio', async () => {
+    const pixels = await readPixels(await mockProvider.place({ baseImage: BASE, maskImage: MASK, objectImage: OBJECT, model: 'mock' }));
+
+    expect(pixels.width).toBe(8);
+    expect(pixelAt(pixels, 0, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(pixels, 3, 2)).toEqual([255, 0, 0, 255]);
+    // 2:1 object in a 4×4 box: rows 0 and 3 stay free
+    expect(pixelAt(pixels, 1, 0)).toEqual([40, 80, 120, 255]);
+    expect(pixelAt(pixels, 6, 6)).toEqual([40, 80, 120, 255]);
+  });
+
+  it('fills the erased area with the average of the unmasked pixels', async () => {
+    const base = makeImage(8, 8, 'rgb(40, 80, 120)', ctx => {
+      ctx.fillStyle = 'rgb(255, 255, 255)';
+      ctx.fillRect(0, 0, 4, 4); // The object being erased
+    });
+    const pixels = await readPixels(await mockProvider.erase({ baseImage: base, maskImage: MASK, model: 'mock' }));
+
+    expect(pixelAt(pixels, 1, 1)).toEqual([40, 80, 120, 255]);
+  });
+
+  it('is deterministic', async () => {
+    const request = { baseImage: BASE, maskImage: MASK, prompt: 'brass', model: 'mock' };
+
+    expect(await mockProvider.replace(request)).toBe(await mockProvider.replace(request));
+    expect(await mockProvider.generate({ prompt: 'a chair' })).toBe(await mockProvider.generate({ prompt: 'a chair' }));
+  });
+
+  it('replaces the masked area with a color derived from the prompt', async () => {
+    const brass = await readPixels(await mockProvider.replace({ baseImage: BASE, maskImage: MASK, prompt: 'brass', model: 'mock' }));
+    const velvet = await readPixels(await mockProvider.replace({ baseImage: BASE, maskImage: MASK, prompt: 'velvet', model: 'mock' }));
+
+    expect(pixelAt(brass, 1, 1)).not.toEqual(pixelAt(velvet, 1, 1));
+    expect(pixelAt(brass, 6, 6)).toEqual([40, 80, 120, 255]);
+  });
+
+  it('returns the guide image for harmonize and the input for isolate', async () => {
+    await expect(mockProvider.harmonize({ guideImage: BASE, maskImage: MASK, objectImage: OBJECT, model: 'mock' })).resolves.toBe(BASE);
+    await expect(mockProvider.isolate({ image: OBJECT, model: 'mock' })).resolves.toBe(OBJECT);
+  });
+
+  it('reports an empty mask as EMPTY_RESPONSE', async () => {
+    await expectAiError(mockProvider.place({ baseImage: BASE, maskImage: EMPTY_MASK, objectImage: OBJECT, model: 'mock' }), AiErrorCode.EMPTY_RESPONSE);
+    await expectAiError(mockProvider.erase({ baseImage: BASE, maskImage: EMPTY_MASK, model: 'mock' }), AiErrorCode.EMPTY_RESPONSE);
+  });
+
+  it('reports an empty prompt as EMPTY_RESPONSE', async () => {
+    await expectAiError(mockProvider.generate({ prompt: '  ' }), AiErrorCode.EMPTY_RESPONSE);
+  });
+});
+
+describe('exportMask', () => {
+  // Painted mask as drawn by the editor: red strokes on a transparent canvas
+  const paintedMask = () => {
+    const canvas = createCanvas(6, 4);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = 'rgba(255, 0, 0, 1)';
+    ctx.fillRect(1, 1, 2, 2);
+    return canvas as unknown as HTMLCanvasElement;
+  };
+
+  it('exports painted pixels as an opaque White-on-Black PNG of the same size', async () => {
+    const pixels = await readPixels(exportMask(paintedMask(), DEFAULT_MASK_EXPORT_POLICY));
+
+    expect(pixels.width).toBe(6);
+    expect(pixels.height).toBe(4);
+    expect(pixelAt(pixels, 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(pixels, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixelAt(pixels, 5, 3)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('applies the export policy', async () => {
+    const pixels = await readPixels(exportMask(paintedMask(), { ...DEFAULT_MASK_EXPORT_POLICY, grow: 1 }));
+
+    expect(pixelAt(pixels, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(pixels, 3, 3)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(pixels, 4, 3)).toEqual([0, 0, 0, 255]);
+  });
+});
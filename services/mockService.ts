@@ -0,0 +1,176 @@
+import { ImageEditProvider, AiErrorCode } from "../types";
+import { AiServiceError } from "./errors";
+import { loadImage, createCanvas } from "../utils/image";
+import { getMaskBounds } from "../utils/mask";
+
+// Offline provider returning predictable images without any network access.
+// - place: draws the object (aspect ratio preserved) centered in the mask's bounding box
+// - erase: flat-fills the masked area with the average color of the unmasked pixels
+// - harmonize: returns the guide composite unchanged
+// - isolate: returns the object unchanged (the local background keying does the actual work)
+// - replace: flat-fills the masked area with a color derived from the prompt text
+// - restyle: recolors the masked area with that color, keeping its shading
+// - outpaint: fills the new area like erase does
+// - generate: draws a swatch whose color is derived from the prompt text
+
+const readMask = async (maskImage: string, width: number, height: number) => {
+  const mask = await loadImage(maskImage);
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Simple deterministic string hash (djb2)
+const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// The generate swatch color, hsl(hash, 70%, 50%), as RGB
+const promptColor = (prompt: string) => {
+  const h = hashString(prompt) % 360;
+  const a = 0.7 * 0.5; // saturation × min(lightness, 1 - lightness)
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return 255 * (0.5 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+// Rewrites every masked pixel with `paint` (RGBA data, pixel offset)
+const paintMasked = async (
+  baseImage: string,
+  maskImage: string,
+  errorMessage: string,
+  paint: (data: Uint8ClampedArray, i: number) => void
+): Promise<string> => {
+  const base = await loadImage(baseImage);
+  const { canvas, ctx } = createCanvas(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+
+  const mask = await readMask(maskImage, base.width, base.height);
+  if (!getMaskBounds(mask, base.width, base.height)) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, errorMessage);
+  }
+  const imageData = ctx.getImageData(0, 0, base.width, base.height);
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    if (mask[i] > 127) paint(imageData.data, i);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockReplace = (baseImage: string, maskImage: string, prompt: string): Promise<string> => {
+  const [r, g, b] = promptColor(prompt);
+  return paintMasked(baseImage, maskImage, "No image returned from replace operation.", (data, i) => {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  });
+};
+
+export const mockRestyle = (baseImage: string, maskImage: string, prompt: string): Promise<string> => {
+  const [r, g, b] = promptColor(prompt);
+  return paintMasked(baseImage, maskImage, "No image returned from restyle operation.", (data, i) => {
+    const shade = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 128;
+    data[i] = r * shade;
+    data[i + 1] = g * shade;
+    data[i + 2] = b * shade;
+  });
+};
+
+export const mockPlace = async (baseImage: string, maskImage: string, objectImage: string): Promise<string> => {
+  const base = await loadImage(baseImage);
+  const { canvas, ctx } = createCanvas(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+
+  const bounds = getMaskBounds(await readMask(maskImage, base.width, base.height), base.width, base.height);
+  if (!bounds) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, "No image returned from placement operation.");
+  }
+
+  const object = await loadImage(objectImage);
+  const scale = Math.min(bounds.width / object.width, bounds.height / object.height);
+  const w = object.width * scale;
+  const h = object.height * scale;
+  ctx.drawImage(object, bounds.x + (bounds.width - w) / 2, bounds.y + (bounds.height - h) / 2, w, h);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockErase = async (baseImage: string, maskImage: string): Promise<string> => {
+  const base = await loadImage(baseImage);
+  const { canvas, ctx } = createCanvas(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+
+  const mask = await readMask(maskImage, base.width, base.height);
+  const imageData = ctx.getImageData(0, 0, base.width, base.height);
+  const data = imageData.data;
+
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (mask[i] <= 127) {
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+  if (count === data.length / 4) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, "No image returned from erase operation.");
+  }
+  const fill = count > 0 ? [r / count, g / count, b / count] : [128, 128, 128];
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (mask[i] > 127) {
+      data[i] = fill[0];
+      data[i + 1] = fill[1];
+      data[i + 2] = fill[2];
+      data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockGenerate = async (prompt: string): Promise<string> => {
+  if (!prompt.trim()) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, "No image generated from text.");
+  }
+  const size = 512;
+  const { canvas, ctx } = createCanvas(size, size);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+
+  ctx.fillStyle = `hsl(${hashString(prompt) % 360}, 70%, 50%)`;
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size * 0.35, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(prompt.slice(0, 16), size / 2, size / 2);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: ImageEditProvider = {
+  id: 'mock',
+  name: 'Mock (Offline)',
+  place: ({ baseImage, maskImage, objectImage }) => mockPlace(baseImage, maskImage, objectImage),
+  erase: ({ baseImage, maskImage }) => mockErase(baseImage, maskImage),
+  harmonize: async ({ guideImage }) => guideImage,
+  isolate: async ({ image }) => image,
+  replace: ({ baseImage, maskImage, prompt }) => mockReplace(baseImage, maskImage, prompt),
+  restyle: ({ baseImage, maskImage, prompt }) => mockRestyle(baseImage, maskImage, prompt),
+  outpaint: ({ baseImage, maskImage }) => mockErase(baseImage, maskImage),
+  generate: ({ prompt }) => mockGenerate(prompt),
+};
@@ -0,0 +1,31 @@
+import { ImageEditProvider, MultiPlaceRequest, RequestOptions } from "../types";
+import { loadImage, fitResultToSize } from "../utils/image";
+import { protectUnmaskedArea } from "../utils/composite";
+
+// Places every region's object into the base image in one request when the provider supports it.
+// Otherwise the regions are placed one after another; each intermediate result is composited back
+// over the previous image through that region's mask, so earlier placements are not degraded again.
+export const placeRegions = async (
+  provider: ImageEditProvider,
+  request: MultiPlaceRequest,
+  options?: RequestOptions
+): Promise<string> => {
+  const { baseImage, regions, model, instruction } = request;
+  if (regions.length === 1) {
+    const [region] = regions;
+    return provider.place({ baseImage, maskImage: region.maskImage, objectImage: region.objectImage, model, instruction }, options);
+  }
+  if (provider.placeMany) {
+    return provider.placeMany(request, options);
+  }
+
+  const { width, height } = await loadImage(baseImage);
+  let current = baseImage;
+  for (const region of regions) {
+    options?.signal?.throwIfAborted();
+    const result = await provider.place({ baseImage: current, maskImage: region.maskImage, objectImage: region.objectImage, model, instruction }, options);
+    const fitted = await fitResultToSize(result, width, height);
+    current = (await protectUnmaskedArea(current, fitted.image, region.maskImage, true)).image;
+  }
+  return current;
+};
@@ -0,0 +1,88 @@
+import { LibraryObject, ObjectSource } from "../types";
+import { createThumbnail } from "../utils/image";
+
+// Persistent object library stored in IndexedDB, so product shots survive across sessions.
+// Entries hold the full ObjectSource (including the pre-cleanup original) plus a small thumbnail.
+
+const DB_NAME = 'photo-object-placer';
+const DB_VERSION = 1;
+const STORE = 'objects';
+const THUMBNAIL_SIZE = 128;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open the object library."));
+    });
+    // Allow a later call to retry after a failure (e.g. blocked by private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves when the transaction completes
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Object library transaction failed."));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Object library transaction was aborted."));
+  });
+};
+
+// Newest first
+export const listLibraryObjects = async (): Promise<LibraryObject[]> => {
+  const entries = await withStore<LibraryObject[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const addLibraryObject = async (source: ObjectSource, name: string, tags: string[] = []): Promise<LibraryObject> => {
+  const entry: LibraryObject = {
+    id: crypto.randomUUID(),
+    name: name.trim() || '未命名物体',
+    tags: normalizeTags(tags),
+    source,
+    thumbnail: await createThumbnail(source.data, THUMBNAIL_SIZE),
+    createdAt: Date.now(),
+  };
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const updateLibraryObject = async (entry: LibraryObject): Promise<LibraryObject> => {
+  const updated = { ...entry, name: entry.name.trim() || '未命名物体', tags: normalizeTags(entry.tags) };
+  await withStore('readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteLibraryObject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Splits user input like "鞋, 运动  红色" into unique tags
+export const parseTags = (input: string): string[] => normalizeTags(input.split(/[,，\s]+/));
+
+const normalizeTags = (tags: string[]) => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+// Every whitespace-separated term must match the name or a tag (case-insensitive)
+export const matchesLibraryQuery = (entry: LibraryObject, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [entry.name, ...entry.tags].map(text => text.toLowerCase());
+  return terms.every(term => haystack.some(text => text.includes(term)));
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { ProjectSnapshot } from '../types';
+import { DEFAULT_MASK_EXPORT_POLICY } from '../utils/mask';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFileError, parseProject, serializeProject } from './projectFile';
+
+const BASE = 'data:image/png;base64,QkFTRQ==';
+const RESULT = 'data:image/png;base64,UkVTVUxU';
+const MASK = 'data:image/png;base64,TUFTSw==';
+
+const snapshot = (): ProjectSnapshot => ({
+  editSteps: [
+    { id: 1, operation: 'original', image: BASE, createdAt: 1 },
+    { id: 2, operation: 'erase', image: RESULT, mask: MASK, model: 'mock', instruction: 'keep the wood grain', createdAt: 2 },
+  ],
+  editIndex: 1,
+  regions: [
+    { id: 1, color: '#ef4444', mask: MASK },
+    { id: 3, color: '#3b82f6', mask: '', objectSource: { type: 'image', data: RESULT, name: 'chair.png' } },
+  ],
+  activeRegionId: 3,
+  objectSource: { type: 'image', data: RESULT },
+  textPrompt: 'a red chair',
+  selectedModel: 'mock',
+  maskPolicies: { place: DEFAULT_MASK_EXPORT_POLICY, erase: { ...DEFAULT_MASK_EXPORT_POLICY, grow: 4 } },
+  instructions: { place: '', erase: 'keep the wood grain', replace: '', restyle: '', outpaint: '', generate: '' },
+  editPrompt: 'brass',
+  outpaintSides: ['top'],
+  outpaintAmount: 0.5,
+});
+
+// Serializes, lets `edit` change the file, and parses the result
+const roundTrip = (edit: (file: { project: ProjectSnapshot; blobs: Record<string, string>; version: number; format: string }) => void) => {
+  const file = JSON.parse(serializeProject(snapshot()));
+  edit(file);
+  return () => parseProject(JSON.stringify(file));
+};
+
+describe('project files', () => {
+  it('round-trips a snapshot', () => {
+    expect(parseProject(serializeProject(snapshot()))).toEqual(snapshot());
+  });
+
+  it('stores every image once in the blob table', () => {
+    const file = JSON.parse(serializeProject(snapshot()));
+
+    expect(file).toMatchObject({ format: PROJECT_FORMAT, version: PROJECT_VERSION });
+    expect(Object.values(file.blobs).sort()).toEqual([BASE, MASK, RESULT].sort());
+    expect(file.project.editSteps[1].image).toEqual({ $blob: expect.any(String) });
+    expect(JSON.stringify(file.project)).not.toContain('data:');
+  });
+
+  it('rejects files that are no project files', () => {
+    expect(() => parseProject('{')).toThrow(ProjectFileError);
+    expect(() => parseProject(JSON.stringify({ format: 'something-else' }))).toThrow("The file is not a project file.");
+    expect(roundTrip(file => { file.version = PROJECT_VERSION + 1; })).toThrow(`Unsupported project version ${PROJECT_VERSION + 1}.`);
+  });
+
+  it('rejects references to missing images', () => {
+    expect(roundTrip(file => { file.blobs = {}; })).toThrow(/Missing image/);
+  });
+
+  it('rejects an empty history or an out of range edit index', () => {
+    expect(roundTrip(file => { file.project.editSteps = []; })).toThrow("The project has no document history.");
+    expect(roundTrip(file => { file.project.editIndex = 2; })).toThrow("The current edit index is out of range.");
+  });
+
+  it('rejects missing mask layers', () => {
+    expect(roundTrip(file => { file.project.regions = []; })).toThrow("The project has no mask layers.");
+  });
+
+  it.each([
+    ['a step id that is no number', (project: ProjectSnapshot) => { (project.editSteps[0] as { id: unknown }).id = '1'; }],
+    ['a missing region id', (project: ProjectSnapshot) => { delete (project.regions[0] as { id?: unknown }).id; }],
+    ['a fractional region id', (project: ProjectSnapshot) => { project.regions[0].id = 1.5; }],
+    ['duplicate step ids', (project: ProjectSnapshot) => { project.editSteps[1].id = 1; }],
+    ['duplicate region ids', (project: ProjectSnapshot) => { project.regions[1].id = 1; }],
+  ])('rejects %s', (_, edit) => {
+    expect(roundTrip(file => edit(file.project))).toThrow("The project contains missing or duplicate ids.");
+  });
+});
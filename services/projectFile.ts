@@ -0,0 +1,121 @@
+import { ProjectSnapshot } from "../types";
+
+// Project files: a single JSON document with the images moved into a deduplicated blob table.
+//
+// {
+//   "format": "photo-object-placer/project",
+//   "version": 1,
+//   "savedAt": "2026-01-01T12:00:00.000Z",
+//   "blobs": { "b0": "data:image/png;base64,...", ... },
+//   "project": ProjectSnapshot
+// }
+//
+// Every Data URL inside `project` is replaced by { "$blob": "<id>" }. Edit steps, masks and object sources
+// often share the same image, and each image is stored only once.
+
+export const PROJECT_FORMAT = 'photo-object-placer/project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.opp.json';
+
+interface ProjectFile {
+  format: string;
+  version: number;
+  savedAt: string;
+  blobs: Record<string, string>;
+  project: unknown;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const isBlobRef = (value: unknown): value is { $blob: string } => {
+  return typeof value === 'object' && value !== null && typeof (value as { $blob?: unknown }).$blob === 'string';
+};
+
+const extractBlobs = (value: unknown, blobs: Record<string, string>, ids: Map<string, string>): unknown => {
+  if (typeof value === 'string' && value.startsWith('data:')) {
+    let id = ids.get(value);
+    if (!id) {
+      id = `b${ids.size}`;
+      ids.set(value, id);
+      blobs[id] = value;
+    }
+    return { $blob: id };
+  }
+  if (Array.isArray(value)) return value.map(item => extractBlobs(item, blobs, ids));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, extractBlobs(item, blobs, ids)]));
+  }
+  return value;
+};
+
+const resolveBlobs = (value: unknown, blobs: Record<string, string>): unknown => {
+  if (isBlobRef(value)) {
+    const blob = blobs[value.$blob];
+    if (typeof blob !== 'string') throw new ProjectFileError(`Missing image "${value.$blob}".`);
+    return blob;
+  }
+  if (Array.isArray(value)) return value.map(item => resolveBlobs(item, blobs));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveBlobs(item, blobs)]));
+  }
+  return value;
+};
+
+export const serializeProject = (snapshot: ProjectSnapshot): string => {
+  const blobs: Record<string, string> = {};
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    blobs,
+    project: extractBlobs(snapshot, blobs, new Map()),
+  };
+  return JSON.stringify(file);
+};
+
+// Ids seed the app's id counters (Math.max over them), so each must be a unique integer
+const hasValidIds = (items: { id: unknown }[]) => {
+  const ids = items.map(item => item.id);
+  return ids.every(id => Number.isInteger(id)) && new Set(ids).size === ids.length;
+};
+
+// Checks the structure the app relies on; unknown extra fields are ignored
+const validateSnapshot = (project: ProjectSnapshot) => {
+  const { editSteps, editIndex, regions } = project;
+  if (!Array.isArray(editSteps) || editSteps.length === 0 || editSteps.some(step => typeof step?.image !== 'string')) {
+    throw new ProjectFileError("The project has no document history.");
+  }
+  if (!Number.isInteger(editIndex) || editIndex < 0 || editIndex >= editSteps.length) {
+    throw new ProjectFileError("The current edit index is out of range.");
+  }
+  if (!Array.isArray(regions) || regions.length === 0 || regions.some(region => typeof region?.mask !== 'string')) {
+    throw new ProjectFileError("The project has no mask layers.");
+  }
+  if (!hasValidIds(editSteps) || !hasValidIds(regions)) {
+    throw new ProjectFileError("The project contains missing or duplicate ids.");
+  }
+};
+
+export const parseProject = (text: string): ProjectSnapshot => {
+  let file: ProjectFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("The file is not valid JSON.");
+  }
+  if (file?.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("The file is not a project file.");
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_VERSION) {
+    throw new ProjectFileError(`Unsupported project version ${file.version}.`);
+  }
+
+  const project = resolveBlobs(file.project, file.blobs ?? {}) as ProjectSnapshot;
+  validateSnapshot(project);
+  return project;
+};
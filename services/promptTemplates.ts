@@ -0,0 +1,67 @@
+import { PromptOperation, PromptTemplate } from "../types";
+import { sanitizeInstruction } from "./prompts";
+
+// Named instructions kept in localStorage. A few examples are offered until the user saves their own.
+
+const STORAGE_KEY = 'photo-object-placer:prompt-templates';
+
+export const EMPTY_INSTRUCTIONS: Record<PromptOperation, string> = {
+  place: '',
+  erase: '',
+  replace: '',
+  restyle: '',
+  outpaint: '',
+  generate: '',
+};
+
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  { id: 'default-evening-light', name: '暖色傍晚光', operation: 'place', instruction: 'Match the warm evening light of the scene.', updatedAt: 0 },
+  { id: 'default-contact-shadow', name: '柔和接触阴影', operation: 'place', instruction: 'Add a soft contact shadow where the object touches the surface.', updatedAt: 0 },
+  { id: 'default-keep-texture', name: '延续纹理', operation: 'erase', instruction: 'Continue the surrounding texture and pattern seamlessly; do not add new objects.', updatedAt: 0 },
+  { id: 'default-studio', name: '棚拍产品图', operation: 'generate', instruction: 'Studio product photo, soft even lighting, sharp focus.', updatedAt: 0 },
+];
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  const template = value as PromptTemplate;
+  return !!template
+    && typeof template.id === 'string'
+    && typeof template.name === 'string'
+    && typeof template.instruction === 'string'
+    && Object.keys(EMPTY_INSTRUCTIONS).includes(template.operation);
+};
+
+export const listPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return DEFAULT_TEMPLATES;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isTemplate) : DEFAULT_TEMPLATES;
+  } catch {
+    return DEFAULT_TEMPLATES; // Storage disabled or corrupted
+  }
+};
+
+const storeTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Saves under the given name, replacing a template of the same operation and name
+export const savePromptTemplate = (operation: PromptOperation, name: string, instruction: string): PromptTemplate => {
+  const templateName = name.trim() || '未命名模板';
+  const templates = listPromptTemplates();
+  const existing = templates.find(t => t.operation === operation && t.name === templateName);
+  const template: PromptTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: templateName,
+    operation,
+    instruction: sanitizeInstruction(instruction),
+    updatedAt: Date.now(),
+  };
+  const next = existing ? templates.map(t => t.id === existing.id ? template : t) : [...templates, template];
+  storeTemplates(next);
+  return template;
+};
+
+export const deletePromptTemplate = (id: string): void => {
+  storeTemplates(listPromptTemplates().filter(t => t.id !== id));
+};
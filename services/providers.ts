@@ -0,0 +1,37 @@
+import { ImageEditProvider, ModelOption } from "../types";
+import { localInpaintProvider } from "./localInpaintService";
+import { proxyProvider } from "./proxyService";
+import { mockProvider } from "./mockService";
+
+// Browser providers only: geminiService (and @google/genai) is imported by the API server and
+// the CLI, so neither the SDK nor a key ends up in the bundle.
+const providers: Record<string, ImageEditProvider> = {
+  [proxyProvider.id]: proxyProvider,
+  [localInpaintProvider.id]: localInpaintProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+// Options shown in the model <select>. Gemini goes through our API server so the key never
+// reaches the browser; the CLI calls geminiProvider directly with its own key.
+export const MODEL_OPTIONS: ModelOption[] = [
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro (高精度)', providerId: 'proxy', model: 'gemini-3-pro-image-preview', preferredSize: 2048 },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash (快速)', providerId: 'proxy', model: 'gemini-2.5-flash-image', preferredSize: 1024 },
+  { id: 'local-inpaint', label: '本地修复服务 (离线)', providerId: 'local', model: 'default', preferredSize: 512 },
+  { id: 'mock', label: '模拟结果 (测试用)', providerId: 'mock', model: 'mock' },
+];
+
+export const DEFAULT_MODEL_OPTION_ID = MODEL_OPTIONS[0].id;
+
+export const DEFAULT_PREFERRED_SIZE = 1024;
+
+export const getModelOption = (id: string): ModelOption => {
+  return MODEL_OPTIONS.find(option => option.id === id) || MODEL_OPTIONS[0];
+};
+
+export const getProvider = (providerId: string): ImageEditProvider => {
+  const provider = providers[providerId];
+  if (!provider) {
+    throw new Error(`Unknown image edit provider: ${providerId}`);
+  }
+  return provider;
+};
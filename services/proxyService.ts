@@ -0,0 +1,78 @@
+import { ImageEditProvider, AiErrorCode } from "../types";
+import { AiServiceError, parseRetryAfter, toAiServiceError } from "./errors";
+import { isAbortError } from "./requestPolicy";
+
+// Gemini through our own API server (server/index.ts), which holds the API key, limits request
+// sizes and rate-limits each client. Requests use the same shape as ImageEditProvider and the
+// server answers { image } or { error: { code, message } } with an AiErrorCode.
+// In development Vite forwards /api to the server; in production serve both from one origin.
+const API_BASE = '/api';
+
+const AI_ERROR_CODES = new Set<string>(Object.values(AiErrorCode));
+
+const postForImage = async (
+  path: string,
+  body: object,
+  errorMessage: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  const json = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = json?.error;
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    if (error && AI_ERROR_CODES.has(error.code) && error.code !== AiErrorCode.UNKNOWN) {
+      throw new AiServiceError(error.code, error.message, { status: response.status, retryAfterMs });
+    }
+    throw toAiServiceError(Object.assign(
+      new Error(error?.message || `API server responded with ${response.status} ${response.statusText}`),
+      { status: response.status, retryAfterMs }
+    ));
+  }
+
+  const image: string | undefined = json?.image;
+  if (!image) {
+    throw new AiServiceError(AiErrorCode.EMPTY_RESPONSE, errorMessage);
+  }
+  return image;
+};
+
+// Logs and normalizes like the other providers; cancellations pass through untouched
+const withErrorHandling = async (label: string, request: () => Promise<string>): Promise<string> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error ${label}:`, error);
+    throw toAiServiceError(error);
+  }
+};
+
+export const proxyProvider: ImageEditProvider = {
+  id: 'proxy',
+  name: 'Gemini (API server)',
+  place: (request, options) => withErrorHandling("placing object", () =>
+    postForImage('/place', request, "No image returned from placement operation.", options?.signal)),
+  placeMany: (request, options) => withErrorHandling("placing objects", () =>
+    postForImage('/place-many', request, "No image returned from multi-object placement.", options?.signal)),
+  erase: (request, options) => withErrorHandling("erasing object", () =>
+    postForImage('/erase', request, "No image returned from erase operation.", options?.signal)),
+  harmonize: (request, options) => withErrorHandling("harmonizing object", () =>
+    postForImage('/harmonize', request, "No image returned from harmonize operation.", options?.signal)),
+  isolate: (request, options) => withErrorHandling("isolating object", () =>
+    postForImage('/isolate', request, "No image returned from isolate operation.", options?.signal)),
+  replace: (request, options) => withErrorHandling("replacing region", () =>
+    postForImage('/replace', request, "No image returned from replace operation.", options?.signal)),
+  restyle: (request, options) => withErrorHandling("restyling region", () =>
+    postForImage('/restyle', request, "No image returned from restyle operation.", options?.signal)),
+  outpaint: (request, options) => withErrorHandling("outpainting image", () =>
+    postForImage('/outpaint', request, "No image returned from outpaint operation.", options?.signal)),
+  generate: (request, options) => withErrorHandling("generating image from text", () =>
+    postForImage('/generate', request, "No image generated from text.", options?.signal)),
+};
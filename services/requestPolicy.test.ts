@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AiErrorCode, RetryPolicy } from '../types';
+import { AiServiceError, parseRetryAfter } from './errors';
+import { isAbortError, isTransientError, runVariants, runWithRetry } from './requestPolicy';
+
+const POLICY: RetryPolicy = { timeoutMs: 10_000, maxRetries: 2, baseDelayMs: 1000 };
+
+const quotaError = (retryAfterMs?: number) => new AiServiceError(AiErrorCode.QUOTA_EXCEEDED, 'Too many requests', { status: 429, retryAfterMs });
+const safetyError = () => new AiServiceError(AiErrorCode.SAFETY_BLOCKED, 'Blocked');
+
+// Settles the promise into a result object so that fake timers can be advanced before awaiting it
+const settle = <T>(promise: Promise<T>) => {
+  const outcome: { value?: T; error?: unknown; done: boolean } = { done: false };
+  promise.then(
+    value => Object.assign(outcome, { value, done: true }),
+    error => Object.assign(outcome, { error, done: true })
+  );
+  return outcome;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('isTransientError', () => {
+  it('retries quota, network and timeout failures', () => {
+    expect(isTransientError(quotaError())).toBe(true);
+    expect(isTransientError(new AiServiceError(AiErrorCode.NETWORK, 'Down'))).toBe(true);
+    expect(isTransientError(new DOMException('Timed out', 'TimeoutError'))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+  });
+
+  it('does not retry permanent failures or programming errors', () => {
+    expect(isTransientError(safetyError())).toBe(false);
+    expect(isTransientError(new AiServiceError(AiErrorCode.INVALID_REQUEST, 'Bad request', { status: 400 }))).toBe(false);
+    expect(isTransientError(new TypeError("Cannot read properties of null (reading 'maskImage')"))).toBe(false);
+    expect(isTransientError(Object.assign(new Error('Not found'), { status: 404 }))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds and HTTP dates', () => {
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 12:00:30 GMT')).toBe(30_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 11:00:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or malformed headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('runWithRetry', () => {
+  it('retries transient errors with exponential backoff', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(quotaError())
+      .mockRejectedValueOnce(quotaError())
+      .mockResolvedValue('image');
+    const outcome = settle(runWithRetry(operation, POLICY));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(outcome).toMatchObject({ done: true, value: 'image' });
+  });
+
+  it('fails immediately on permanent errors', async () => {
+    const error = safetyError();
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(runWithRetry(operation, POLICY)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const operation = vi.fn().mockRejectedValue(quotaError());
+    const outcome = settle(runWithRetry(operation, POLICY));
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(operation).toHaveBeenCalledTimes(POLICY.maxRetries + 1);
+    expect((outcome.error as AiServiceError).code).toBe(AiErrorCode.QUOTA_EXCEEDED);
+  });
+
+  it('waits for Retry-After when it is longer than the backoff', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(quotaError(5000)).mockResolvedValue('image');
+    const outcome = settle(runWithRetry(operation, POLICY));
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(outcome).toMatchObject({ done: true, value: 'image' });
+  });
+
+  it('keeps the backoff when Retry-After is shorter', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(quotaError(10)).mockResolvedValue('image');
+    settle(runWithRetry(operation, POLICY));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out a hanging attempt and retries it', async () => {
+    const operation = vi.fn()
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockResolvedValue('image');
+    const outcome = settle(runWithRetry(operation, { ...POLICY, timeoutMs: 500 }));
+
+    await vi.advanceTimersByTimeAsync(500);
+    const firstSignal: AbortSignal = operation.mock.calls[0][0];
+    expect(firstSignal.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(outcome).toMatchObject({ done: true, value: 'image' });
+  });
+
+  it('rejects with an AbortError when aborted during the backoff', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(quotaError());
+    const outcome = settle(runWithRetry(operation, POLICY, controller.signal));
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(isAbortError(outcome.error)).toBe(true);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the running attempt with the caller signal', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn((_signal: AbortSignal) => new Promise<string>(() => {}));
+    const outcome = settle(runWithRetry(operation, POLICY, controller.signal));
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(operation.mock.calls[0][0].aborted).toBe(true);
+    expect(isAbortError(outcome.error)).toBe(true);
+  });
+});
+
+describe('runVariants', () => {
+  it('returns the successful results next to the failures', async () => {
+    const error = safetyError();
+    const operation = vi.fn()
+      .mockResolvedValueOnce('first')
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce('third');
+
+    await expect(runVariants(3, operation, POLICY)).resolves.toEqual({ results: ['first', 'third'], failures: [error] });
+  });
+
+  it('rejects with the first failure when every request failed', async () => {
+    const first = safetyError();
+    const operation = vi.fn().mockRejectedValueOnce(first).mockRejectedValue(safetyError());
+
+    await expect(runVariants(2, operation, POLICY)).rejects.toBe(first);
+  });
+
+  it('rejects with an AbortError when aborted', async () => {
+    const controller = new AbortController();
+    const outcome = settle(runVariants(2, () => new Promise<string>(() => {}), POLICY, controller.signal));
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(isAbortError(outcome.error)).toBe(true);
+  });
+});
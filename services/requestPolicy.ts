@@ -0,0 +1,125 @@
+import { RetryPolicy } from "../types";
+import { AiServiceError, isNetworkError } from "./errors";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 120000,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+};
+
+const createAbortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+export const isAbortError = (error: unknown) => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+export const isTimeoutError = (error: unknown) => {
+  return error instanceof DOMException && error.name === 'TimeoutError';
+};
+
+// Rate limiting (429), server side failures (5xx), timeouts and dropped connections are worth another try
+export const isTransientError = (error: unknown) => {
+  if (error instanceof AiServiceError) return error.retryable;
+  if (isTimeoutError(error)) return true;
+  if (isNetworkError(error)) return true;
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Runs one attempt with its own AbortSignal that fires on timeout or when the caller aborts
+const runAttempt = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(createAbortError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new DOMException(`The operation timed out after ${timeoutMs}ms.`, "TimeoutError");
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+  });
+
+  try {
+    // Race so that providers ignoring the signal still settle on timeout / cancel
+    return await Promise.race([operation(controller.signal), timeout, aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Runs an AI operation with a per-attempt timeout and exponential backoff retry on transient errors,
+// waiting at least as long as a Retry-After header asks for.
+// Rejects with an AbortError as soon as the given signal is aborted.
+export const runWithRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runAttempt(operation, policy.timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      if (attempt >= policy.maxRetries || !isTransientError(error)) throw error;
+
+      // Never retry sooner than the server asked for (429 with Retry-After)
+      const retryAfterMs = error instanceof AiServiceError ? error.retryAfterMs ?? 0 : 0;
+      const delay = Math.max(policy.baseDelayMs * Math.pow(2, attempt), retryAfterMs);
+      console.warn(`AI request failed (attempt ${attempt + 1}), retrying in ${delay}ms`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// Requests `count` independent results in parallel, each with its own retry budget.
+// Resolves with the successful ones; rejects with the first failure only if every request failed.
+export const runVariants = async <T>(
+  count: number,
+  operation: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<{ results: T[]; failures: unknown[] }> => {
+  const settled = await Promise.allSettled(
+    Array.from({ length: count }, () => runWithRetry(operation, policy, signal))
+  );
+  if (signal?.aborted) throw createAbortError();
+
+  const results: T[] = [];
+  const failures: unknown[] = [];
+  for (const outcome of settled) {
+    if (outcome.status === 'fulfilled') results.push(outcome.value);
+    else failures.push(outcome.reason);
+  }
+  if (results.length === 0) throw failures[0];
+  return { results, failures };
+};
@@ -0,0 +1,48 @@
+import { vi } from 'vitest';
+import { createCanvas, Image } from '@napi-rs/canvas';
+
+// Canvas for tests of the browser image code: document.createElement('canvas') and `Image` are
+// backed by @napi-rs/canvas, which decodes and encodes PNG Data URLs like the browser does.
+export const installCanvas = () => {
+  vi.stubGlobal('document', {
+    createElement: (tag: string) => {
+      if (tag !== 'canvas') throw new Error(`Unsupported element <${tag}> in tests.`);
+      return createCanvas(1, 1);
+    },
+  });
+  vi.stubGlobal('Image', Image);
+};
+
+// Solid image or canvas content as a PNG Data URL; `paint` draws on top of the fill
+export const makeImage = (
+  width: number,
+  height: number,
+  fill: string,
+  paint?: (ctx: CanvasRenderingContext2D) => void
+): string => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, width, height);
+  paint?.(ctx as unknown as CanvasRenderingContext2D);
+  return canvas.toDataURL('image/png');
+};
+
+// RGBA pixels of a Data URL
+export const readPixels = async (src: string) => {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = src;
+  });
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  return { width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data };
+};
+
+export const pixelAt = (pixels: { width: number; data: Uint8ClampedArray }, x: number, y: number) => {
+  const i = (y * pixels.width + x) * 4;
+  return Array.from(pixels.data.slice(i, i + 4));
+};
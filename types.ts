@@ -1,5 +1,10 @@
 export enum ToolType {
   BRUSH = 'BRUSH',
+  ERASER = 'ERASER',
+  RECTANGLE = 'RECTANGLE',
+  ELLIPSE = 'ELLIPSE',
+  LASSO = 'LASSO',
+  OBJECT = 'OBJECT', // Move / scale / rotate the object layer
   HAND = 'HAND',
 }
 
@@ -8,6 +13,20 @@ export interface Point {
   y: number;
 }
 
+// Placement of the object image as a layer on the canvas (image coordinates)
+export interface ObjectLayer {
+  x: number; // Center
+  y: number;
+  scale: number;
+  rotation: number; // Radians
+}
+
+// Selection shape in image coordinates, rasterized into the mask canvas
+export type MaskShape =
+  | { kind: 'rectangle'; start: Point; end: Point }
+  | { kind: 'ellipse'; start: Point; end: Point }
+  | { kind: 'polygon'; points: Point[] };
+
 export interface Transform {
   x: number;
   y: number;
@@ -24,4 +43,237 @@ export interface ObjectSource {
   type: 'image' | 'text';
   data: string; // Base64 for image, text string for prompt
   previewUrl?: string; // For text-generated or uploaded image
+  original?: string; // Image before background removal, kept so the cleanup can be redone or undone
+  name?: string; // File name or prompt, used as the default name in the object library
+}
+
+// An object saved in the persistent object library (IndexedDB)
+export interface LibraryObject {
+  id: string;
+  name: string;
+  tags: string[];
+  source: ObjectSource;
+  thumbnail: string; // Small PNG Data URL for the library grid
+  createdAt: number;
+}
+
+// How the painted mask is turned into the mask image sent to the model
+export interface MaskExportPolicy {
+  // binary: any painted pixel counts; threshold: alpha must reach `threshold`;
+  // soft: the painted alpha becomes the grey level, keeping soft brush edges (see brush hardness)
+  mode: 'binary' | 'threshold' | 'soft';
+  threshold: number; // 1..255, used by 'threshold'
+  grow: number; // Pixels to dilate (positive) or erode (negative) the selection by
+  feather: number; // Blur radius in pixels for soft edges, 0 keeps the mask strictly binary
+}
+
+// How much a model result changed pixels the mask marked as protected
+export interface DriftReport {
+  driftRatio: number; // Share of protected pixels that visibly changed (0..1)
+  meanDifference: number; // Mean per-channel difference over protected pixels (0..255)
+  enforced: boolean; // Whether protected pixels were restored from the base image
+}
+
+export type EditOperation = 'original' | 'place' | 'erase' | 'replace' | 'restyle' | 'outpaint';
+
+// One version of the document. Applied operations keep everything needed to understand or redo them.
+export interface EditStep {
+  id: number;
+  operation: EditOperation;
+  image: string; // Resulting image (Data URL)
+  mask?: string; // Binary mask sent to the model
+  objectSource?: ObjectSource; // Placed object, for 'place'
+  model?: string; // ModelOption id
+  regions?: PlaceRegionInput[]; // Per-region inputs of a multi-object placement
+  instruction?: string; // Free-text instruction sent with the request
+  prompt?: string; // Description for 'replace', 'restyle' and 'outpaint'
+  createdAt: number;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// One base image of a batch run
+export interface BatchItem {
+  id: number;
+  name: string; // File name, also used for the result inside the zip
+  image: string; // Data URL
+  mask?: string; // Per-image mask; the shared mask is used when absent
+  status: BatchItemStatus;
+  result?: string;
+  error?: string; // Short message for failed items
+  warning?: string; // Short note for results that needed correction
+}
+
+export type OutpaintSide = 'top' | 'right' | 'bottom' | 'left';
+
+// Everything needed to restore a working session from a project file (see README, "Project Files")
+export interface ProjectSnapshot {
+  editSteps: EditStep[];
+  editIndex: number;
+  regions: (PlacementRegion & { mask: string })[]; // Painted mask of each region as PNG Data URL (red + transparent)
+  activeRegionId: number;
+  objectSource: ObjectSource | null;
+  textPrompt: string;
+  selectedModel: string; // ModelOption id
+  maskPolicies: { place: MaskExportPolicy; erase: MaskExportPolicy };
+  instructions?: Record<PromptOperation, string>; // Missing in files saved before instructions existed
+  // Replace / restyle / outpaint settings, missing in files saved before these edits existed
+  editPrompt?: string;
+  outpaintSides?: OutpaintSide[];
+  outpaintAmount?: number;
+}
+
+// A mask region of a multi-object placement. Each region is painted on its own mask canvas.
+export interface PlacementRegion {
+  id: number;
+  color: string; // Hex display colour, also identifies the region in the colour-coded region map
+  objectSource?: ObjectSource; // Object placed into this region
+}
+
+export interface PlaceRequest {
+  baseImage: string; // Data URL
+  maskImage: string; // Data URL, White = Edit Area, Black = Protected
+  objectImage: string; // Data URL
+  model: string;
+  instruction?: string; // Free-text user guidance, see services/prompts.ts
+}
+
+export interface PlaceRegionInput {
+  maskImage: string; // Binary mask of this region only
+  objectImage: string;
+  color: string; // Hex colour of the region in the region map
+  colorName: string; // Human readable colour name, used to reference the region in prompts
+}
+
+// Several objects placed in one pass
+export interface MultiPlaceRequest {
+  baseImage: string;
+  regionMap: string; // Every region filled with its colour on Black
+  regions: PlaceRegionInput[];
+  model: string;
+  instruction?: string;
+}
+
+export interface EraseRequest {
+  baseImage: string;
+  maskImage: string;
+  model: string;
+  instruction?: string;
+}
+
+// The object is already roughly composited; the model only blends it into the scene
+export interface HarmonizeRequest {
+  guideImage: string; // Base image with the object layer drawn in place
+  maskImage: string; // Footprint of the object layer
+  objectImage: string; // Clean reference of the object
+  model: string;
+  instruction?: string; // The placement instruction
+}
+
+// Separates the object from its background for object preparation
+export interface IsolateRequest {
+  image: string; // Data URL of the object photo
+  model: string;
+}
+
+// Repaints the masked area from a text description alone, without an object image
+export interface ReplaceRequest {
+  baseImage: string;
+  maskImage: string;
+  prompt: string; // What the masked area should show
+  model: string;
+  instruction?: string;
+}
+
+// Changes material, colour or finish inside the mask while keeping shapes and structure
+export interface RestyleRequest {
+  baseImage: string;
+  maskImage: string;
+  prompt: string; // Target style, e.g. "brushed brass" or "dark green velvet"
+  model: string;
+  instruction?: string;
+}
+
+// The canvas is already expanded (see utils/outpaint.ts); the model fills the new area
+export interface OutpaintRequest {
+  baseImage: string; // Original image on the larger canvas, new area filled with neutral grey
+  maskImage: string; // White = new area to fill (plus a small overlap for blending)
+  prompt?: string; // Optional description of the extended scene
+  model: string;
+  instruction?: string;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  instruction?: string;
+}
+
+// Operations that accept a free-text instruction
+export type PromptOperation = 'place' | 'erase' | 'replace' | 'restyle' | 'outpaint' | 'generate';
+
+// A named, reusable instruction for one operation (stored in localStorage)
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  operation: PromptOperation;
+  instruction: string;
+  updatedAt: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborts the underlying network request
+}
+
+// A backend capable of the image editing operations used by the app.
+// Every operation resolves to an image Data URL.
+export interface ImageEditProvider {
+  id: string;
+  name: string;
+  place: (request: PlaceRequest, options?: RequestOptions) => Promise<string>;
+  // Optional: backends without it get one `place` call per region
+  placeMany?: (request: MultiPlaceRequest, options?: RequestOptions) => Promise<string>;
+  erase: (request: EraseRequest, options?: RequestOptions) => Promise<string>;
+  harmonize: (request: HarmonizeRequest, options?: RequestOptions) => Promise<string>;
+  // Resolves to the object on a transparent or solid chroma-key background
+  isolate: (request: IsolateRequest, options?: RequestOptions) => Promise<string>;
+  replace: (request: ReplaceRequest, options?: RequestOptions) => Promise<string>;
+  restyle: (request: RestyleRequest, options?: RequestOptions) => Promise<string>;
+  outpaint: (request: OutpaintRequest, options?: RequestOptions) => Promise<string>;
+  generate: (request: GenerateRequest, options?: RequestOptions) => Promise<string>;
+}
+
+export interface RetryPolicy {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Additional attempts after the first one
+  baseDelayMs: number; // Backoff delay before the first retry, doubled every retry
+}
+
+// An entry of the model <select>: which provider handles it and which model it asks for.
+export interface ModelOption {
+  id: string;
+  label: string;
+  providerId: string;
+  model: string;
+  preferredSize?: number; // Long side in pixels the model works best at, used for crop-to-region
+}
+
+export enum AiErrorCode {
+  MISSING_API_KEY = 'MISSING_API_KEY',
+  INVALID_API_KEY = 'INVALID_API_KEY',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  SAFETY_BLOCKED = 'SAFETY_BLOCKED',
+  EMPTY_RESPONSE = 'EMPTY_RESPONSE',
+  NETWORK = 'NETWORK',
+  TIMEOUT = 'TIMEOUT',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface AppNotification {
+  id: number;
+  level: 'error' | 'warning' | 'info';
+  title: string;
+  message?: string;
+  onRetry?: () => void;
 }
@@ -0,0 +1,178 @@
+import { Rect } from "./mask";
+import { loadImage, createCanvas } from "./image";
+
+// Object preparation: keys out a uniform background into transparency and trims the image to its content
+
+export interface BackgroundKeyOptions {
+  tolerance: number; // Max RGB distance from the key colour that still counts as background
+  softness: number; // Extra distance over which edge pixels fade from transparent to opaque
+  contiguous: boolean; // Only remove background connected to the image border (flood fill)
+  keyColor?: [number, number, number]; // Defaults to the dominant border colour
+}
+
+export const DEFAULT_BACKGROUND_OPTIONS: BackgroundKeyOptions = {
+  tolerance: 40,
+  softness: 24,
+  contiguous: true,
+};
+
+export interface BackgroundRemoval {
+  image: string; // Transparent PNG Data URL
+  removedRatio: number; // Share of pixels that became transparent
+}
+
+// Pixels this transparent are background whatever their colour
+const TRANSPARENT_ALPHA = 16;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, key: [number, number, number]) => {
+  const dr = data[i] - key[0];
+  const dg = data[i + 1] - key[1];
+  const db = data[i + 2] - key[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+// Most common colour along the image border, quantized to 4 bits per channel and averaged within its bucket
+export const estimateBorderColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  const visit = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < TRANSPARENT_ALPHA) return;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    visit(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    visit(0, y);
+    visit(width - 1, y);
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best) return [255, 255, 255];
+  return [best.r / best.count, best.g / best.count, best.b / best.count];
+};
+
+// Makes background pixels transparent in place and fades the edge pixels next to them.
+// Returns the number of pixels that were removed.
+export const keyOutBackground = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: BackgroundKeyOptions
+): number => {
+  const key = options.keyColor ?? estimateBorderColor(data, width, height);
+  const total = width * height;
+  const isBackground = (p: number) => {
+    const i = p * 4;
+    return data[i + 3] < TRANSPARENT_ALPHA || colorDistance(data, i, key) <= options.tolerance;
+  };
+
+  const removed = new Uint8Array(total);
+  if (options.contiguous) {
+    // Breadth-first flood fill seeded from every border pixel
+    const queue = new Int32Array(total);
+    let head = 0, tail = 0;
+    const seed = (p: number) => {
+      if (!removed[p] && isBackground(p)) {
+        removed[p] = 1;
+        queue[tail++] = p;
+      }
+    };
+    for (let x = 0; x < width; x++) {
+      seed(x);
+      seed((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+      seed(y * width);
+      seed(y * width + width - 1);
+    }
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width;
+      if (x > 0) seed(p - 1);
+      if (x < width - 1) seed(p + 1);
+      if (p >= width) seed(p - width);
+      if (p < total - width) seed(p + width);
+    }
+  } else {
+    for (let p = 0; p < total; p++) {
+      if (isBackground(p)) removed[p] = 1;
+    }
+  }
+
+  let count = 0;
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    if (removed[p]) {
+      data[i + 3] = 0;
+      count++;
+      continue;
+    }
+    if (options.softness <= 0) continue;
+    // Anti-aliased edges are a mix of object and background colour: fade them by their distance to the key
+    const x = p % width;
+    const touchesBackground =
+      (x > 0 && removed[p - 1]) || (x < width - 1 && removed[p + 1]) ||
+      (p >= width && removed[p - width]) || (p < total - width && removed[p + width]);
+    if (!touchesBackground) continue;
+    const fade = (colorDistance(data, i, key) - options.tolerance) / options.softness;
+    if (fade < 1) data[i + 3] = Math.round(data[i + 3] * Math.max(0, fade));
+  }
+  return count;
+};
+
+// Bounding box of the pixels that are at least slightly opaque, or null for a fully transparent image
+export const getAlphaBounds = (data: Uint8ClampedArray, width: number, height: number, threshold = TRANSPARENT_ALPHA): Rect | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] >= threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const removeBackground = async (src: string, options: BackgroundKeyOptions): Promise<BackgroundRemoval> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, img.width, img.height);
+  const removed = keyOutBackground(imageData.data, img.width, img.height, options);
+  ctx.putImageData(imageData, 0, 0);
+  return { image: canvas.toDataURL('image/png'), removedRatio: removed / (img.width * img.height) };
+};
+
+// Crops transparent margins, keeping `padding` pixels around the content; empty images are returned unchanged
+export const trimToContent = async (src: string, padding = 2): Promise<string> => {
+  const img = await loadImage(src);
+  const { ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  const bounds = getAlphaBounds(ctx.getImageData(0, 0, img.width, img.height).data, img.width, img.height);
+  if (!bounds) return src;
+
+  const x = Math.max(0, bounds.x - padding);
+  const y = Math.max(0, bounds.y - padding);
+  const width = Math.min(img.width, bounds.x + bounds.width + padding) - x;
+  const height = Math.min(img.height, bounds.y + bounds.height + padding) - y;
+  if (width === img.width && height === img.height) return src;
+
+  const { canvas, ctx: trimmedCtx } = createCanvas(width, height);
+  trimmedCtx.drawImage(img, x, y, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
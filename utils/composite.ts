@@ -0,0 +1,77 @@
+import { DriftReport } from "../types";
+import { loadImage, createCanvas } from "./image";
+
+// Difference (max over RGB) above which a protected pixel counts as changed; absorbs compression noise
+const DRIFT_TOLERANCE = 24;
+
+// Measures how much `result` differs from `base` where the mask is fully Black (protected).
+// All buffers are RGBA of the same size; the mask's red channel is the edit weight.
+export const measureDrift = (
+  base: Uint8ClampedArray,
+  result: Uint8ClampedArray,
+  mask: Uint8ClampedArray
+): Omit<DriftReport, 'enforced'> => {
+  let protectedCount = 0;
+  let changedCount = 0;
+  let differenceSum = 0;
+  for (let i = 0; i < base.length; i += 4) {
+    if (mask[i] !== 0) continue;
+    protectedCount++;
+    const dr = Math.abs(result[i] - base[i]);
+    const dg = Math.abs(result[i + 1] - base[i + 1]);
+    const db = Math.abs(result[i + 2] - base[i + 2]);
+    differenceSum += (dr + dg + db) / 3;
+    if (Math.max(dr, dg, db) > DRIFT_TOLERANCE) changedCount++;
+  }
+  return {
+    driftRatio: protectedCount ? changedCount / protectedCount : 0,
+    meanDifference: protectedCount ? differenceSum / protectedCount : 0,
+  };
+};
+
+// Blends `result` over `base` weighted by the mask, in place on `result`.
+// Black keeps the base pixel exactly, White keeps the result, grey (feathered) edges mix both.
+export const blendByMask = (
+  base: Uint8ClampedArray,
+  result: Uint8ClampedArray,
+  mask: Uint8ClampedArray
+): Uint8ClampedArray => {
+  for (let i = 0; i < base.length; i += 4) {
+    const weight = mask[i] / 255;
+    for (let c = 0; c < 4; c++) {
+      result[i + c] = base[i + c] + (result[i + c] - base[i + c]) * weight;
+    }
+  }
+  return result;
+};
+
+// Reports drift outside the mask and, when `enforce` is set, composites the result over the base
+// so that only masked pixels can change. The result must already have the base image's size.
+export const protectUnmaskedArea = async (
+  baseImage: string,
+  resultImage: string,
+  maskImage: string,
+  enforce: boolean
+): Promise<{ image: string; report: DriftReport }> => {
+  const [base, result, mask] = await Promise.all([loadImage(baseImage), loadImage(resultImage), loadImage(maskImage)]);
+  const { width, height } = base;
+
+  const read = (img: HTMLImageElement) => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  };
+  const baseData = read(base).data;
+  const maskData = read(mask).data;
+  const resultPixels = read(result);
+
+  const drift = measureDrift(baseData, resultPixels.data, maskData);
+  if (!enforce) {
+    return { image: resultImage, report: { ...drift, enforced: false } };
+  }
+
+  blendByMask(baseData, resultPixels.data, maskData);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(resultPixels, 0, 0);
+  return { image: canvas.toDataURL('image/png'), report: { ...drift, enforced: true } };
+};
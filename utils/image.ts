@@ -0,0 +1,133 @@
+import { MaskExportPolicy } from "../types";
+import { applyMaskPolicy } from "./mask";
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  return { canvas, ctx };
+};
+
+// Turns a painted mask canvas (red + transparent) into the White-on-Black PNG sent to the providers
+export const exportMask = (maskCanvas: HTMLCanvasElement, policy: MaskExportPolicy): string => {
+  const { canvas, ctx } = createCanvas(maskCanvas.width, maskCanvas.height);
+  ctx.drawImage(maskCanvas, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyMaskPolicy(imageData.data, canvas.width, canvas.height, policy);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Scales the image down to fit a `size` × `size` box, keeping transparency
+export const createThumbnail = async (src: string, size: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, size / Math.max(img.width, img.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+export interface FittedResult {
+  image: string; // Data URL with exactly the requested size
+  sourceWidth: number;
+  sourceHeight: number;
+  strategy: 'scale' | 'letterbox' | 'crop'; // How the result was mapped onto the requested size
+  aspectMismatch: boolean; // The returned aspect ratio differed from the requested one
+}
+
+// Relative aspect ratio difference treated as identical (rounding by the model)
+const ASPECT_TOLERANCE = 0.01;
+// Per-channel tolerance for a row / column to count as a uniform letterbox bar
+const BAR_TOLERANCE = 12;
+// Bars are only trimmed up to this share of the image per side
+const MAX_BAR_SHARE = 0.25;
+
+export const aspectDiffers = (w1: number, h1: number, w2: number, h2: number) => {
+  return Math.abs(w1 / h1 - w2 / h2) / (w2 / h2) > ASPECT_TOLERANCE;
+};
+
+// Finds uniform bars (typically black or white padding) along the edges of an RGBA image
+// and returns the content area inside them
+export const detectLetterbox = (data: Uint8ClampedArray, width: number, height: number) => {
+  const pixel = (x: number, y: number) => (y * width + x) * 4;
+  const isUniform = (x0: number, y0: number, dx: number, dy: number, count: number) => {
+    const ref = pixel(x0, y0);
+    for (let i = 1; i < count; i++) {
+      const p = pixel(x0 + dx * i, y0 + dy * i);
+      if (
+        Math.abs(data[p] - data[ref]) > BAR_TOLERANCE ||
+        Math.abs(data[p + 1] - data[ref + 1]) > BAR_TOLERANCE ||
+        Math.abs(data[p + 2] - data[ref + 2]) > BAR_TOLERANCE
+      ) return false;
+    }
+    return true;
+  };
+
+  const maxX = Math.floor(width * MAX_BAR_SHARE);
+  const maxY = Math.floor(height * MAX_BAR_SHARE);
+  let top = 0, bottom = 0, left = 0, right = 0;
+  while (top < maxY && isUniform(0, top, 1, 0, width)) top++;
+  while (bottom < maxY && isUniform(0, height - 1 - bottom, 1, 0, width)) bottom++;
+  while (left < maxX && isUniform(left, 0, 0, 1, height)) left++;
+  while (right < maxX && isUniform(width - 1 - right, 0, 0, 1, height)) right++;
+
+  return { x: left, y: top, width: width - left - right, height: height - top - bottom };
+};
+
+// Maps a model result onto the requested size without distorting it.
+// - Same aspect ratio: plain scale.
+// - Different ratio caused by padding bars: the bars are trimmed before scaling.
+// - Otherwise: scaled uniformly to cover the requested size and center-cropped.
+export const fitResultToSize = async (imageSrc: string, width: number, height: number): Promise<FittedResult> => {
+  const img = await loadImage(imageSrc);
+  const sourceWidth = img.width;
+  const sourceHeight = img.height;
+  const { canvas, ctx } = createCanvas(width, height);
+  const result = (strategy: FittedResult['strategy']): FittedResult => ({
+    image: canvas.toDataURL('image/png'),
+    sourceWidth,
+    sourceHeight,
+    strategy,
+    aspectMismatch: strategy !== 'scale',
+  });
+
+  if (!aspectDiffers(sourceWidth, sourceHeight, width, height)) {
+    ctx.drawImage(img, 0, 0, width, height);
+    return result('scale');
+  }
+
+  const { ctx: sourceCtx } = createCanvas(sourceWidth, sourceHeight);
+  sourceCtx.drawImage(img, 0, 0);
+  const content = detectLetterbox(sourceCtx.getImageData(0, 0, sourceWidth, sourceHeight).data, sourceWidth, sourceHeight);
+  if (
+    content.width > 0 && content.height > 0 &&
+    (content.width < sourceWidth || content.height < sourceHeight) &&
+    !aspectDiffers(content.width, content.height, width, height)
+  ) {
+    ctx.drawImage(img, content.x, content.y, content.width, content.height, 0, 0, width, height);
+    return result('letterbox');
+  }
+
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  ctx.drawImage(
+    img,
+    (sourceWidth - cropWidth) / 2, (sourceHeight - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, width, height
+  );
+  return result('crop');
+};
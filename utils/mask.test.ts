@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { MaskExportPolicy } from '../types';
+import { DEFAULT_MASK_EXPORT_POLICY, applyMaskPolicy, featherMask, growMask } from './mask';
+
+// Painted mask pixels as RGBA with the given alpha values (colour does not matter)
+const painted = (alphas: number[]) => {
+  const data = new Uint8ClampedArray(alphas.length * 4);
+  alphas.forEach((alpha, i) => {
+    data[i * 4] = 255;
+    data[i * 4 + 3] = alpha;
+  });
+  return data;
+};
+
+const redChannel = (data: Uint8ClampedArray) => Array.from(data.filter((_, i) => i % 4 === 0));
+
+// Single channel mask with a White square of `size` pixels in the middle
+const square = (width: number, height: number, size: number) => {
+  const grey = new Uint8ClampedArray(width * height);
+  const start = Math.floor((width - size) / 2);
+  for (let y = start; y < start + size; y++) {
+    for (let x = start; x < start + size; x++) grey[y * width + x] = 255;
+  }
+  return grey;
+};
+
+const count = (grey: Uint8ClampedArray) => grey.filter(value => value > 0).length;
+
+describe('applyMaskPolicy', () => {
+  it('selects every painted pixel in binary mode', () => {
+    const data = applyMaskPolicy(painted([0, 1, 128, 255]), 4, 1, DEFAULT_MASK_EXPORT_POLICY);
+
+    expect(redChannel(data)).toEqual([0, 255, 255, 255]);
+  });
+
+  it('selects only pixels at or above the threshold in threshold mode', () => {
+    const policy: MaskExportPolicy = { ...DEFAULT_MASK_EXPORT_POLICY, mode: 'threshold', threshold: 128 };
+    const data = applyMaskPolicy(painted([0, 127, 128, 255]), 4, 1, policy);
+
+    expect(redChannel(data)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('keeps partial alpha as grey levels in soft mode', () => {
+    const policy: MaskExportPolicy = { ...DEFAULT_MASK_EXPORT_POLICY, mode: 'soft' };
+    const data = applyMaskPolicy(painted([0, 64, 200, 255]), 4, 1, policy);
+
+    expect(redChannel(data)).toEqual([0, 64, 200, 255]);
+  });
+
+  it('passes a soft brush edge through that binary mode would harden', () => {
+    // Soft stroke fading out to the right, as drawn with a low brush hardness
+    const alphas = [255, 255, 192, 128, 64, 0, 0, 0, 0];
+    const binary = redChannel(applyMaskPolicy(painted(alphas), 9, 1, DEFAULT_MASK_EXPORT_POLICY));
+    const soft = redChannel(applyMaskPolicy(painted(alphas), 9, 1, { ...DEFAULT_MASK_EXPORT_POLICY, mode: 'soft' }));
+
+    expect(binary.slice(0, 5)).toEqual([255, 255, 255, 255, 255]);
+    expect(soft.slice(0, 5)).toEqual([255, 255, 192, 128, 64]);
+  });
+
+  it('writes an opaque greyscale White-on-Black mask in place', () => {
+    const input = painted([0, 255]);
+    const data = applyMaskPolicy(input, 2, 1, DEFAULT_MASK_EXPORT_POLICY);
+
+    expect(data).toBe(input);
+    expect(Array.from(data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('applies grow and feather from the policy', () => {
+    const alphas = Array.from(square(9, 9, 1));
+    const policy: MaskExportPolicy = { ...DEFAULT_MASK_EXPORT_POLICY, grow: 1 };
+
+    expect(redChannel(applyMaskPolicy(painted(alphas), 9, 9, policy)).filter(value => value === 255)).toHaveLength(9);
+
+    const feathered = redChannel(applyMaskPolicy(painted(alphas), 9, 9, { ...policy, feather: 2 }));
+    expect(feathered.some(value => value > 0 && value < 255)).toBe(true);
+  });
+});
+
+describe('growMask', () => {
+  it('grows the White area by the radius', () => {
+    const grey = growMask(square(11, 11, 3), 11, 11, 2);
+
+    expect(count(grey)).toBe(7 * 7);
+  });
+
+  it('shrinks the White area for a negative radius', () => {
+    const grey = growMask(square(11, 11, 5), 11, 11, -1);
+
+    expect(count(grey)).toBe(3 * 3);
+  });
+
+  it('keeps a selection that reaches the image border at the border when shrinking', () => {
+    const grey = growMask(new Uint8ClampedArray(25).fill(255), 5, 5, -1);
+
+    expect(count(grey)).toBe(25);
+  });
+
+  it('leaves the mask unchanged for radius 0', () => {
+    const mask = square(5, 5, 1);
+
+    expect(Array.from(growMask(mask.slice(), 5, 5, 0))).toEqual(Array.from(mask));
+  });
+});
+
+describe('featherMask', () => {
+  it('softens the edge into intermediate values', () => {
+    const grey = featherMask(square(15, 15, 5), 15, 15, 4);
+    const center = grey[7 * 15 + 7];
+    const edge = grey[7 * 15 + 5];
+
+    expect(center).toBeGreaterThan(edge);
+    expect(edge).toBeGreaterThan(0);
+    expect(edge).toBeLessThan(255);
+  });
+
+  it('keeps uniform areas unchanged', () => {
+    const grey = featherMask(new Uint8ClampedArray(16).fill(255), 4, 4, 3);
+
+    expect(Array.from(grey)).toEqual(new Array(16).fill(255));
+  });
+
+  it('leaves the mask unchanged for radius 0', () => {
+    const mask = square(5, 5, 1);
+
+    expect(Array.from(featherMask(mask.slice(), 5, 5, 0))).toEqual(Array.from(mask));
+  });
+});
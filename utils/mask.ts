@@ -0,0 +1,135 @@
+import { MaskExportPolicy } from "../types";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Bounding box of the White area of a binary mask, or null if nothing is selected
+export const getMaskBounds = (data: Uint8ClampedArray, width: number, height: number): Rect | null => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] > 127) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const DEFAULT_MASK_EXPORT_POLICY: MaskExportPolicy = {
+  mode: 'binary',
+  threshold: 128,
+  grow: 0,
+  feather: 0,
+};
+
+// Sliding window max/min over one line using the van Herk / Gil-Werman algorithm (O(n) for any radius)
+const morphLine = (line: Uint8ClampedArray, radius: number, isMax: boolean): Uint8ClampedArray => {
+  const n = line.length;
+  const k = radius * 2 + 1;
+  const neutral = isMax ? 0 : 255;
+  const m = Math.ceil((n + radius * 2) / k) * k;
+  const op = isMax ? Math.max : Math.min;
+
+  const f = new Uint8ClampedArray(m).fill(neutral);
+  f.set(line, radius);
+  const g = new Uint8ClampedArray(m); // Running op from the start of each block
+  const h = new Uint8ClampedArray(m); // Running op from the end of each block
+  for (let i = 0; i < m; i++) {
+    g[i] = i % k === 0 ? f[i] : op(g[i - 1], f[i]);
+  }
+  for (let i = m - 1; i >= 0; i--) {
+    h[i] = i % k === k - 1 || i === m - 1 ? f[i] : op(h[i + 1], f[i]);
+  }
+
+  const out = new Uint8ClampedArray(n);
+  for (let x = 0; x < n; x++) {
+    out[x] = op(h[x], g[x + k - 1]);
+  }
+  return out;
+};
+
+// Box blur over one line with clamped edges
+const blurLine = (line: Uint8ClampedArray, radius: number): Uint8ClampedArray => {
+  const n = line.length;
+  const out = new Uint8ClampedArray(n);
+  const at = (i: number) => line[Math.min(n - 1, Math.max(0, i))];
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) sum += at(i);
+  for (let x = 0; x < n; x++) {
+    out[x] = sum / (radius * 2 + 1);
+    sum += at(x + radius + 1) - at(x - radius);
+  }
+  return out;
+};
+
+// Applies a line filter to every row, then every column of a single channel image
+const filterSeparable = (
+  grey: Uint8ClampedArray,
+  width: number,
+  height: number,
+  filter: (line: Uint8ClampedArray) => Uint8ClampedArray
+) => {
+  for (let y = 0; y < height; y++) {
+    grey.set(filter(grey.subarray(y * width, (y + 1) * width)), y * width);
+  }
+  const column = new Uint8ClampedArray(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) column[y] = grey[y * width + x];
+    const filtered = filter(column);
+    for (let y = 0; y < height; y++) grey[y * width + x] = filtered[y];
+  }
+};
+
+// Grows (radius > 0) or shrinks (radius < 0) the White area of a single channel mask by a square of `radius` pixels
+export const growMask = (grey: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  if (radius === 0) return grey;
+  const r = Math.round(Math.abs(radius));
+  filterSeparable(grey, width, height, line => morphLine(line, r, radius > 0));
+  return grey;
+};
+
+// Softens the edges of a single channel mask; three box blur passes approximate a gaussian
+export const featherMask = (grey: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  if (radius <= 0) return grey;
+  const r = Math.max(1, Math.round(radius / 2));
+  for (let pass = 0; pass < 3; pass++) {
+    filterSeparable(grey, width, height, line => blurLine(line, r));
+  }
+  return grey;
+};
+
+// Converts painted mask pixels (RGBA, only alpha matters) into the White-on-Black mask described by the policy, in place.
+// Only 'soft' passes partial alpha through; the other modes binarize before grow and feather.
+export const applyMaskPolicy = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  policy: MaskExportPolicy
+): Uint8ClampedArray => {
+  const threshold = policy.mode === 'threshold' ? Math.min(255, Math.max(1, policy.threshold)) : 1;
+  const grey = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    const alpha = data[i * 4 + 3];
+    grey[i] = policy.mode === 'soft' ? alpha : alpha >= threshold ? 255 : 0;
+  }
+
+  growMask(grey, width, height, policy.grow);
+  featherMask(grey, width, height, policy.feather);
+
+  for (let i = 0; i < grey.length; i++) {
+    data[i * 4] = grey[i];
+    data[i * 4 + 1] = grey[i];
+    data[i * 4 + 2] = grey[i];
+    data[i * 4 + 3] = 255;
+  }
+  return data;
+};
@@ -0,0 +1,172 @@
+import { Rect } from "./mask";
+
+// Undo/redo for the mask canvas that stores only what changed.
+//
+// Each entry keeps the alpha channel of the changed rectangle before and after the edit, which is
+// enough because the mask canvas is always painted in solid red and only its alpha varies.
+// A full-resolution snapshot of a 24MP photo costs ~96MB; a stroke entry costs 2 bytes per changed pixel.
+// The oldest entries are dropped once the total exceeds the memory budget.
+
+interface MaskHistoryEntry {
+  rect: Rect;
+  before: Uint8ClampedArray;
+  after: Uint8ClampedArray;
+}
+
+export interface MaskHistory {
+  markDirty: (x: number, y: number, width: number, height: number) => void; // Area touched by the pending edit
+  commit: () => boolean; // Records the pending edit, returns false if nothing changed
+  revert: () => void; // Throws the pending edit away, restoring the last committed pixels
+  undo: () => boolean;
+  redo: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  reset: () => void; // Forgets all entries and takes the current mask as the baseline
+}
+
+export const DEFAULT_MASK_HISTORY_BUDGET = 64 * 1024 * 1024;
+
+const MASK_COLOR = [255, 0, 0];
+
+const readAlpha = (imageData: ImageData) => {
+  const alpha = new Uint8ClampedArray(imageData.width * imageData.height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = imageData.data[i * 4 + 3];
+  return alpha;
+};
+
+const toImageData = (alpha: Uint8ClampedArray, width: number, height: number) => {
+  const imageData = new ImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    imageData.data[i * 4] = MASK_COLOR[0];
+    imageData.data[i * 4 + 1] = MASK_COLOR[1];
+    imageData.data[i * 4 + 2] = MASK_COLOR[2];
+    imageData.data[i * 4 + 3] = alpha[i];
+  }
+  return imageData;
+};
+
+// Bounds of the pixels that differ between two alpha buffers of the given width, relative to them
+const diffBounds = (before: Uint8ClampedArray, after: Uint8ClampedArray, width: number): Rect | null => {
+  const height = before.length / width;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (before[i] !== after[i]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const cropAlpha = (alpha: Uint8ClampedArray, width: number, rect: Rect) => {
+  const cropped = new Uint8ClampedArray(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    cropped.set(alpha.subarray(start, start + rect.width), y * rect.width);
+  }
+  return cropped;
+};
+
+export const createMaskHistory = (
+  maskCanvas: HTMLCanvasElement,
+  budgetBytes: number = DEFAULT_MASK_HISTORY_BUDGET
+): MaskHistory => {
+  const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true })!;
+
+  // Copy of the mask as of the last commit, used to read the "before" pixels
+  const committed = document.createElement('canvas');
+  committed.width = maskCanvas.width;
+  committed.height = maskCanvas.height;
+  const committedCtx = committed.getContext('2d', { willReadFrequently: true })!;
+
+  let entries: MaskHistoryEntry[] = [];
+  let index = 0; // Number of entries currently applied
+  let bytes = 0;
+  let dirty: Rect | null = null;
+
+  const syncCommitted = () => {
+    committedCtx.clearRect(0, 0, committed.width, committed.height);
+    committedCtx.drawImage(maskCanvas, 0, 0);
+  };
+
+  const apply = (entry: MaskHistoryEntry, alpha: Uint8ClampedArray) => {
+    const imageData = toImageData(alpha, entry.rect.width, entry.rect.height);
+    maskCtx.putImageData(imageData, entry.rect.x, entry.rect.y);
+    committedCtx.putImageData(imageData, entry.rect.x, entry.rect.y);
+  };
+
+  syncCommitted();
+
+  return {
+    markDirty: (x, y, width, height) => {
+      const x0 = Math.max(0, Math.floor(Math.min(x, dirty ? dirty.x : x)));
+      const y0 = Math.max(0, Math.floor(Math.min(y, dirty ? dirty.y : y)));
+      const x1 = Math.min(maskCanvas.width, Math.ceil(Math.max(x + width, dirty ? dirty.x + dirty.width : x + width)));
+      const y1 = Math.min(maskCanvas.height, Math.ceil(Math.max(y + height, dirty ? dirty.y + dirty.height : y + height)));
+      dirty = x1 > x0 && y1 > y0 ? { x: x0, y: y0, width: x1 - x0, height: y1 - y0 } : dirty;
+    },
+    commit: () => {
+      const area = dirty;
+      dirty = null;
+      if (!area) return false;
+
+      const before = readAlpha(committedCtx.getImageData(area.x, area.y, area.width, area.height));
+      const after = readAlpha(maskCtx.getImageData(area.x, area.y, area.width, area.height));
+      const changed = diffBounds(before, after, area.width);
+      if (!changed) return false;
+
+      const entry: MaskHistoryEntry = {
+        rect: { x: area.x + changed.x, y: area.y + changed.y, width: changed.width, height: changed.height },
+        before: cropAlpha(before, area.width, changed),
+        after: cropAlpha(after, area.width, changed),
+      };
+      committedCtx.putImageData(toImageData(entry.after, changed.width, changed.height), entry.rect.x, entry.rect.y);
+
+      // A new edit discards the redo tail
+      for (const dropped of entries.slice(index)) bytes -= dropped.before.length * 2;
+      entries = [...entries.slice(0, index), entry];
+      bytes += entry.before.length * 2;
+
+      // Drop the oldest entries over budget, but always keep the newest one
+      while (bytes > budgetBytes && entries.length > 1) {
+        bytes -= entries[0].before.length * 2;
+        entries = entries.slice(1);
+      }
+      index = entries.length;
+      return true;
+    },
+    revert: () => {
+      const area = dirty;
+      dirty = null;
+      if (!area) return;
+      maskCtx.putImageData(committedCtx.getImageData(area.x, area.y, area.width, area.height), area.x, area.y);
+    },
+    undo: () => {
+      if (index === 0) return false;
+      index--;
+      apply(entries[index], entries[index].before);
+      return true;
+    },
+    redo: () => {
+      if (index >= entries.length) return false;
+      apply(entries[index], entries[index].after);
+      index++;
+      return true;
+    },
+    canUndo: () => index > 0,
+    canRedo: () => index < entries.length,
+    reset: () => {
+      entries = [];
+      index = 0;
+      bytes = 0;
+      dirty = null;
+      syncCommitted();
+    },
+  };
+};
@@ -0,0 +1,158 @@
+import { ObjectLayer, Point } from "../types";
+import { loadImage, createCanvas } from "./image";
+
+// Manual pre-placement: the object is drawn as a transformable layer over the base image.
+// Its silhouette becomes the mask and the flattened image is sent as a guide for harmonization.
+
+export type LayerHandle = 'move' | 'scale' | 'rotate';
+
+// Initial layer size relative to the longer side of the base image
+const INITIAL_SHARE = 0.3;
+// Distance of the rotation handle above the top edge, in screen pixels
+export const ROTATE_HANDLE_OFFSET = 28;
+
+export const createInitialLayer = (
+  objectWidth: number,
+  objectHeight: number,
+  imageWidth: number,
+  imageHeight: number
+): ObjectLayer => ({
+  x: imageWidth / 2,
+  y: imageHeight / 2,
+  scale: (Math.max(imageWidth, imageHeight) * INITIAL_SHARE) / Math.max(objectWidth, objectHeight),
+  rotation: 0,
+});
+
+// Converts a point from image space into the layer's unrotated, unscaled space (origin at its center)
+const toLayerSpace = (point: Point, layer: ObjectLayer): Point => {
+  const dx = point.x - layer.x;
+  const dy = point.y - layer.y;
+  const cos = Math.cos(-layer.rotation);
+  const sin = Math.sin(-layer.rotation);
+  return {
+    x: (dx * cos - dy * sin) / layer.scale,
+    y: (dx * sin + dy * cos) / layer.scale,
+  };
+};
+
+const fromLayerSpace = (point: Point, layer: ObjectLayer): Point => {
+  const cos = Math.cos(layer.rotation);
+  const sin = Math.sin(layer.rotation);
+  const x = point.x * layer.scale;
+  const y = point.y * layer.scale;
+  return { x: layer.x + x * cos - y * sin, y: layer.y + x * sin + y * cos };
+};
+
+// Corners in image space: top-left, top-right, bottom-right, bottom-left
+export const getLayerCorners = (width: number, height: number, layer: ObjectLayer): Point[] => {
+  const hw = width / 2;
+  const hh = height / 2;
+  return [
+    { x: -hw, y: -hh },
+    { x: hw, y: -hh },
+    { x: hw, y: hh },
+    { x: -hw, y: hh },
+  ].map(p => fromLayerSpace(p, layer));
+};
+
+// `zoom` is the current view scale, so handle sizes stay constant on screen
+export const getRotateHandle = (width: number, height: number, layer: ObjectLayer, zoom: number): Point => {
+  return fromLayerSpace({ x: 0, y: -height / 2 - ROTATE_HANDLE_OFFSET / (zoom * layer.scale) }, layer);
+};
+
+export const hitTestLayer = (
+  point: Point,
+  width: number,
+  height: number,
+  layer: ObjectLayer,
+  zoom: number,
+  handleRadius: number
+): LayerHandle | null => {
+  const radius = handleRadius / zoom;
+  const rotate = getRotateHandle(width, height, layer, zoom);
+  if (Math.hypot(point.x - rotate.x, point.y - rotate.y) <= radius) return 'rotate';
+  if (getLayerCorners(width, height, layer).some(c => Math.hypot(point.x - c.x, point.y - c.y) <= radius)) {
+    return 'scale';
+  }
+  const local = toLayerSpace(point, layer);
+  if (Math.abs(local.x) <= width / 2 && Math.abs(local.y) <= height / 2) return 'move';
+  return null;
+};
+
+export const drawObjectLayer = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, width: number, height: number, layer: ObjectLayer) => {
+  ctx.save();
+  ctx.translate(layer.x, layer.y);
+  ctx.rotate(layer.rotation);
+  ctx.scale(layer.scale, layer.scale);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+// Bounding box, corner handles and rotation handle, drawn in image space
+export const drawLayerHandles = (ctx: CanvasRenderingContext2D, width: number, height: number, layer: ObjectLayer, zoom: number) => {
+  const corners = getLayerCorners(width, height, layer);
+  const rotate = getRotateHandle(width, height, layer, zoom);
+  const topCenter = fromLayerSpace({ x: 0, y: -height / 2 }, layer);
+  const size = 8 / zoom;
+
+  ctx.save();
+  ctx.strokeStyle = '#60a5fa';
+  ctx.fillStyle = '#ffffff';
+  ctx.lineWidth = 1.5 / zoom;
+  ctx.beginPath();
+  corners.forEach((c, i) => (i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y)));
+  ctx.closePath();
+  ctx.moveTo(topCenter.x, topCenter.y);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+
+  corners.forEach(c => {
+    ctx.fillRect(c.x - size / 2, c.y - size / 2, size, size);
+    ctx.strokeRect(c.x - size / 2, c.y - size / 2, size, size);
+  });
+  ctx.beginPath();
+  ctx.arc(rotate.x, rotate.y, size / 2 + 1 / zoom, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Updates the layer for a drag that started at `start` with `initial` as the layer state
+export const transformLayer = (handle: LayerHandle, initial: ObjectLayer, start: Point, current: Point, keepAngleSteps = false): ObjectLayer => {
+  if (handle === 'move') {
+    return { ...initial, x: initial.x + current.x - start.x, y: initial.y + current.y - start.y };
+  }
+  if (handle === 'scale') {
+    const startDistance = Math.hypot(start.x - initial.x, start.y - initial.y);
+    const distance = Math.hypot(current.x - initial.x, current.y - initial.y);
+    if (startDistance === 0) return initial;
+    return { ...initial, scale: Math.max(0.01, initial.scale * distance / startDistance) };
+  }
+  const startAngle = Math.atan2(start.y - initial.y, start.x - initial.x);
+  const angle = Math.atan2(current.y - initial.y, current.x - initial.x);
+  let rotation = initial.rotation + angle - startAngle;
+  if (keepAngleSteps) {
+    const step = Math.PI / 12; // 15°
+    rotation = Math.round(rotation / step) * step;
+  }
+  return { ...initial, rotation };
+};
+
+// Paints the object's alpha silhouette onto the mask in solid red (the mask color)
+export const renderFootprint = (maskCtx: CanvasRenderingContext2D, img: CanvasImageSource, width: number, height: number, layer: ObjectLayer) => {
+  const { canvas: silhouette, ctx } = createCanvas(maskCtx.canvas.width, maskCtx.canvas.height);
+  drawObjectLayer(ctx, img, width, height, layer);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = 'rgba(255, 0, 0, 1)';
+  ctx.fillRect(0, 0, silhouette.width, silhouette.height);
+  maskCtx.drawImage(silhouette, 0, 0);
+};
+
+// Flattens the object layer onto the base image
+export const renderGuideComposite = async (baseImage: string, img: HTMLImageElement, layer: ObjectLayer): Promise<string> => {
+  const base = await loadImage(baseImage);
+  const { canvas, ctx } = createCanvas(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+  drawObjectLayer(ctx, img, img.width, img.height, layer);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,61 @@
+import { OutpaintSide } from '../types';
+import { loadImage, createCanvas } from './image';
+
+// Canvas expansion for outpainting: the original is drawn onto a larger canvas and the mask marks
+// the new area, overlapping the original slightly so the model can blend the seam.
+
+export type OutpaintPadding = Record<OutpaintSide, number>; // Pixels added per side
+
+export const OUTPAINT_SIDES: OutpaintSide[] = ['top', 'right', 'bottom', 'left'];
+
+export const DEFAULT_OUTPAINT_SIDES: OutpaintSide[] = ['left', 'right'];
+export const DEFAULT_OUTPAINT_AMOUNT = 0.25;
+
+// Neutral grey reads as "empty" to the model and does not bias the colours of the fill
+const FILL_COLOR = '#808080';
+// Pixels of the original inside the mask along every expanded edge
+const SEAM_OVERLAP = 8;
+
+// `amount` is a share of the image height (top / bottom) or width (left / right)
+export const getOutpaintPadding = (width: number, height: number, sides: OutpaintSide[], amount: number): OutpaintPadding => {
+  const pad = (side: OutpaintSide, size: number) => (sides.includes(side) ? Math.round(size * amount) : 0);
+  return {
+    top: pad('top', height),
+    right: pad('right', width),
+    bottom: pad('bottom', height),
+    left: pad('left', width),
+  };
+};
+
+export interface ExpandedCanvas {
+  baseImage: string; // Original on the larger canvas, new area grey
+  maskImage: string; // White = area to fill, Black = original
+  width: number;
+  height: number;
+}
+
+export const expandCanvas = async (src: string, padding: OutpaintPadding): Promise<ExpandedCanvas> => {
+  const img = await loadImage(src);
+  const width = img.width + padding.left + padding.right;
+  const height = img.height + padding.top + padding.bottom;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = FILL_COLOR;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, padding.left, padding.top);
+
+  // Only edges that were actually expanded get the overlap
+  const inset = (side: OutpaintSide) => (padding[side] > 0 ? SEAM_OVERLAP : 0);
+  const { canvas: mask, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.fillStyle = '#FFFFFF';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(
+    padding.left + inset('left'),
+    padding.top + inset('top'),
+    img.width - inset('left') - inset('right'),
+    img.height - inset('top') - inset('bottom')
+  );
+
+  return { baseImage: canvas.toDataURL('image/png'), maskImage: mask.toDataURL('image/png'), width, height };
+};
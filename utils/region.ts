@@ -0,0 +1,77 @@
+import { Rect, getMaskBounds } from "./mask";
+import { loadImage, createCanvas, fitResultToSize, FittedResult } from "./image";
+
+// Crop-to-region processing: small edits in large photos are sent as a padded crop around the mask,
+// scaled to the model's preferred resolution, and the result is stitched back into the full image.
+
+export interface RegionCrop {
+  region: Rect; // Area of the full image that was cropped
+  baseImage: string; // Cropped and scaled base image
+  maskImage: string; // Cropped and scaled mask
+}
+
+// Context around the mask, relative to its larger side, so the model can match lighting and perspective
+const PADDING_RATIO = 0.35;
+const MIN_PADDING = 32;
+// Cropping only pays off when the region is clearly smaller than the photo
+const MAX_REGION_SHARE = 0.5;
+
+export const computeCropRegion = (bounds: Rect, width: number, height: number): Rect => {
+  const padding = Math.max(MIN_PADDING, Math.max(bounds.width, bounds.height) * PADDING_RATIO);
+  const x0 = Math.max(0, Math.floor(bounds.x - padding));
+  const y0 = Math.max(0, Math.floor(bounds.y - padding));
+  const x1 = Math.min(width, Math.ceil(bounds.x + bounds.width + padding));
+  const y1 = Math.min(height, Math.ceil(bounds.y + bounds.height + padding));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+export const shouldCropToRegion = (region: Rect, width: number, height: number, preferredSize: number) => {
+  const isLarge = Math.max(width, height) > preferredSize;
+  const isSmallRegion = region.width * region.height <= width * height * MAX_REGION_SHARE;
+  return isLarge && isSmallRegion;
+};
+
+// Cuts `region` out of the image and scales it so that its longer side equals `targetLongSide`
+export const cropImage = async (src: string, region: Rect, targetLongSide: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = targetLongSide / Math.max(region.width, region.height);
+  const { canvas, ctx } = createCanvas(Math.round(region.width * scale), Math.round(region.height * scale));
+  ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Returns the cropped request, or null when the whole image should be sent
+export const cropForRegion = async (
+  baseImage: string,
+  maskImage: string,
+  preferredSize: number
+): Promise<RegionCrop | null> => {
+  const mask = await loadImage(maskImage);
+  const { ctx } = createCanvas(mask.width, mask.height);
+  ctx.drawImage(mask, 0, 0);
+  const bounds = getMaskBounds(ctx.getImageData(0, 0, mask.width, mask.height).data, mask.width, mask.height);
+  if (!bounds) return null;
+
+  const region = computeCropRegion(bounds, mask.width, mask.height);
+  if (!shouldCropToRegion(region, mask.width, mask.height, preferredSize)) return null;
+
+  const [croppedBase, croppedMask] = await Promise.all([
+    cropImage(baseImage, region, preferredSize),
+    cropImage(maskImage, region, preferredSize),
+  ]);
+  return { region, baseImage: croppedBase, maskImage: croppedMask };
+};
+
+// Pastes a result for `region` back into the full resolution base image. The returned image is the
+// full stitched image; the fit details describe how the model result was mapped onto the region.
+export const stitchRegion = async (baseImage: string, resultImage: string, region: Rect): Promise<FittedResult> => {
+  const [base, fitted] = await Promise.all([
+    loadImage(baseImage),
+    fitResultToSize(resultImage, region.width, region.height),
+  ]);
+  const patch = await loadImage(fitted.image);
+  const { canvas, ctx } = createCanvas(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(patch, region.x, region.y);
+  return { ...fitted, image: canvas.toDataURL('image/png') };
+};
@@ -0,0 +1,99 @@
+import { loadImage, createCanvas } from "./image";
+
+// Multi-object placement: every region has a distinct colour, used both for display and to
+// tell the model which object belongs where in the colour-coded region map.
+
+export interface RegionColor {
+  hex: string;
+  name: string;
+  rgb: [number, number, number];
+}
+
+// Saturated, mutually distant colours that survive model-side resampling
+export const REGION_COLORS: RegionColor[] = [
+  { hex: '#ff0000', name: 'RED', rgb: [255, 0, 0] },
+  { hex: '#00ff00', name: 'GREEN', rgb: [0, 255, 0] },
+  { hex: '#0000ff', name: 'BLUE', rgb: [0, 0, 255] },
+  { hex: '#ffff00', name: 'YELLOW', rgb: [255, 255, 0] },
+  { hex: '#ff00ff', name: 'MAGENTA', rgb: [255, 0, 255] },
+  { hex: '#00ffff', name: 'CYAN', rgb: [0, 255, 255] },
+];
+
+export const getRegionColor = (hex: string): RegionColor => {
+  return REGION_COLORS.find(color => color.hex === hex) ?? REGION_COLORS[0];
+};
+
+// First palette colour not used yet, or null when every colour is taken
+export const nextRegionColor = (used: string[]): RegionColor | null => {
+  return REGION_COLORS.find(color => !used.includes(color.hex)) ?? null;
+};
+
+const readMasks = async (masks: string[]) => {
+  const images = await Promise.all(masks.map(loadImage));
+  const { width, height } = images[0];
+  const data = images.map(img => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  });
+  return { width, height, data };
+};
+
+// Fills each White-on-Black mask with its region colour on a Black background.
+// Where regions overlap the later one wins.
+export const renderRegionMap = async (masks: string[], colors: RegionColor[]): Promise<string> => {
+  const { width, height, data } = await readMasks(masks);
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    out.data[i + 3] = 255;
+    data.forEach((mask, index) => {
+      if (mask[i] > 127) {
+        out.data[i] = colors[index].rgb[0];
+        out.data[i + 1] = colors[index].rgb[1];
+        out.data[i + 2] = colors[index].rgb[2];
+      }
+    });
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Per-pixel maximum of White-on-Black masks, keeping feathered edges
+export const unionMasks = async (masks: string[]): Promise<string> => {
+  if (masks.length === 1) return masks[0];
+  const { width, height, data } = await readMasks(masks);
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const value = Math.max(...data.map(mask => mask[i]));
+    out.data[i] = value;
+    out.data[i + 1] = value;
+    out.data[i + 2] = value;
+    out.data[i + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Draws a (red) mask canvas recoloured to `color`, using `scratch` as a reusable buffer
+export const drawTintedMask = (
+  ctx: CanvasRenderingContext2D,
+  mask: HTMLCanvasElement,
+  scratch: HTMLCanvasElement,
+  color: string
+) => {
+  if (scratch.width !== mask.width || scratch.height !== mask.height) {
+    scratch.width = mask.width;
+    scratch.height = mask.height;
+  }
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) return;
+  scratchCtx.globalCompositeOperation = 'copy';
+  scratchCtx.drawImage(mask, 0, 0);
+  scratchCtx.globalCompositeOperation = 'source-in';
+  scratchCtx.fillStyle = color;
+  scratchCtx.fillRect(0, 0, scratch.width, scratch.height);
+  scratchCtx.globalCompositeOperation = 'source-over';
+  ctx.drawImage(scratch, 0, 0);
+};
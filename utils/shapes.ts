@@ -0,0 +1,60 @@
+import { MaskShape, Point } from "../types";
+import { Rect } from "./mask";
+
+// Builds the shape's path on the context (does not fill or stroke)
+export const traceShape = (ctx: CanvasRenderingContext2D, shape: MaskShape) => {
+  ctx.beginPath();
+  if (shape.kind === 'polygon') {
+    shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    return;
+  }
+
+  const { x, y, width, height } = getShapeBounds(shape);
+  if (shape.kind === 'rectangle') {
+    ctx.rect(x, y, width, height);
+  } else {
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  }
+};
+
+export const getShapeBounds = (shape: MaskShape): Rect => {
+  const points = shape.kind === 'polygon' ? shape.points : [shape.start, shape.end];
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Rasterizes the shape into the mask canvas. Subtractive shapes remove mask pixels.
+export const fillShape = (ctx: CanvasRenderingContext2D, shape: MaskShape, subtractive: boolean = false) => {
+  ctx.save();
+  ctx.globalCompositeOperation = subtractive ? 'destination-out' : 'source-over';
+  traceShape(ctx, shape);
+  ctx.fillStyle = '#ff0000';
+  ctx.fill();
+  ctx.restore();
+};
+
+// Dashed outline drawn on the view canvas while a shape is being defined
+export const strokeShapePreview = (ctx: CanvasRenderingContext2D, shape: MaskShape, scale: number) => {
+  ctx.save();
+  traceShape(ctx, shape);
+  ctx.lineWidth = 1.5 / scale;
+  ctx.setLineDash([6 / scale, 4 / scale]);
+  ctx.strokeStyle = '#facc15';
+  ctx.stroke();
+  ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
+  ctx.fill();
+  ctx.restore();
+};
+
+// Constrains the drag to a square / circle (Shift)
+export const constrainToSquare = (start: Point, end: Point): Point => {
+  const size = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  return {
+    x: start.x + Math.sign(end.x - start.x || 1) * size,
+    y: start.y + Math.sign(end.y - start.y || 1) * size,
+  };
+};
@@ -0,0 +1,127 @@
+import { Point } from "../types";
+import { Rect } from "./mask";
+
+// Continuous brush strokes for the mask canvas.
+// Input samples arrive at the rate of pointer events, so fast movements leave large gaps between them.
+// The stroke fills those gaps with evenly spaced round stamps and can optionally smooth the path.
+// Pen pressure, when given, scales the stamp size and is interpolated along the path as well.
+
+export interface StrokePoint extends Point {
+  pressure?: number; // 0..1, omitted for devices without pressure
+}
+
+export interface StrokeOptions {
+  size: number; // Brush diameter in image pixels
+  subtractive?: boolean; // Remove mask pixels instead of adding them
+  smoothing?: number; // 0 = follow the input exactly, towards 1 = heavier smoothing (lag)
+  spacing?: number; // Distance between stamps as a fraction of the diameter
+  hardness?: number; // 1 = solid edge, towards 0 = the stamp fades out from the center
+}
+
+export interface Stroke {
+  addPoint: (point: StrokePoint) => Rect | null; // Returns the area touched, if any
+  end: () => Rect | null; // Catches up with the last input sample
+}
+
+const DEFAULT_SPACING = 0.15;
+
+const MIN_PRESSURE_SCALE = 0.1;
+
+interface StrokeSample {
+  x: number;
+  y: number;
+  pressure: number;
+}
+
+const toSample = (point: StrokePoint): StrokeSample => ({
+  x: point.x,
+  y: point.y,
+  pressure: Math.max(MIN_PRESSURE_SCALE, point.pressure ?? 1),
+});
+
+export const beginStroke = (ctx: CanvasRenderingContext2D, start: StrokePoint, options: StrokeOptions): Stroke => {
+  const spacing = Math.max(0.05, options.spacing ?? DEFAULT_SPACING);
+  const smoothing = Math.min(0.95, Math.max(0, options.smoothing ?? 0));
+  const hardness = Math.min(1, Math.max(0, options.hardness ?? 1));
+
+  let smoothed = toSample(start);
+  let lastRaw = toSample(start);
+  let lastStamp = toSample(start);
+
+  const stamp = (p: StrokeSample, bounds: Rect | null): Rect => {
+    const radius = (options.size / 2) * p.pressure;
+    ctx.save();
+    ctx.globalCompositeOperation = options.subtractive ? 'destination-out' : 'source-over';
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+    // Use solid red. Transparency is handled in global draw() to ensure uniform opacity.
+    // Soft brushes only vary the alpha, so the mask stays pure red.
+    if (hardness < 1) {
+      const gradient = ctx.createRadialGradient(p.x, p.y, radius * hardness, p.x, p.y, radius);
+      gradient.addColorStop(0, 'rgba(255, 0, 0, 1)');
+      gradient.addColorStop(1, 'rgba(255, 0, 0, 0)');
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = '#ff0000';
+    }
+    ctx.fill();
+    ctx.restore();
+    return unionRect(bounds, { x: p.x - radius - 1, y: p.y - radius - 1, width: radius * 2 + 2, height: radius * 2 + 2 });
+  };
+
+  // Walks from the last stamp towards `to`, placing a stamp every `step` pixels.
+  // The remainder stays behind the last stamp, so spacing stays even across samples.
+  const stampTo = (to: StrokeSample): Rect | null => {
+    let bounds: Rect | null = null;
+    let distance = Math.hypot(to.x - lastStamp.x, to.y - lastStamp.y);
+    // Thinner (low pressure) stamps need to sit closer together
+    let step = Math.max(0.5, options.size * lastStamp.pressure * spacing);
+    while (distance >= step) {
+      const t = step / distance;
+      lastStamp = {
+        x: lastStamp.x + (to.x - lastStamp.x) * t,
+        y: lastStamp.y + (to.y - lastStamp.y) * t,
+        pressure: lastStamp.pressure + (to.pressure - lastStamp.pressure) * t,
+      };
+      bounds = stamp(lastStamp, bounds);
+      distance = Math.hypot(to.x - lastStamp.x, to.y - lastStamp.y);
+      step = Math.max(0.5, options.size * lastStamp.pressure * spacing);
+    }
+    return bounds;
+  };
+
+  let pendingBounds: Rect | null = stamp(lastStamp, null);
+
+  return {
+    addPoint: (point) => {
+      lastRaw = toSample(point);
+      smoothed = {
+        x: smoothed.x + (lastRaw.x - smoothed.x) * (1 - smoothing),
+        y: smoothed.y + (lastRaw.y - smoothed.y) * (1 - smoothing),
+        pressure: smoothed.pressure + (lastRaw.pressure - smoothed.pressure) * (1 - smoothing),
+      };
+      const bounds = unionRect(pendingBounds, stampTo(smoothed));
+      pendingBounds = null;
+      return bounds;
+    },
+    end: () => {
+      // Smoothing lags behind the pointer; finish the stroke where the user released it
+      const bounds = unionRect(pendingBounds, smoothing > 0 ? stampTo(lastRaw) : null);
+      pendingBounds = null;
+      return bounds;
+    },
+  };
+};
+
+export const unionRect = (a: Rect | null, b: Rect | null): Rect | null => {
+  if (!a) return b;
+  if (!b) return a;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Reads the archive back through the central directory, checking the local headers on the way
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  let pointer = view.getUint32(endOffset + 16, true);
+  expect(pointer + centralSize).toBe(endOffset);
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pointer, true)).toBe(0x02014b50);
+    const crc = view.getUint32(pointer + 16, true);
+    const size = view.getUint32(pointer + 24, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // Stored
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(name);
+    const dataStart = localOffset + 30 + nameLength;
+
+    entries.push({
+      name,
+      crc,
+      data: bytes.slice(dataStart, dataStart + size),
+      time: view.getUint16(localOffset + 10, true),
+      date: view.getUint16(localOffset + 12, true),
+    });
+    pointer += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+    expect(crc32(text('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry with its name, data and checksum', async () => {
+    const entries = [
+      { name: 'a.png', data: text('first') },
+      { name: 'folder/照片.png', data: new Uint8Array([0, 1, 2, 255]) },
+    ];
+
+    const read = await readZip(createZip(entries));
+
+    expect(read.map(entry => entry.name)).toEqual(['a.png', 'folder/照片.png']);
+    expect(read.map(entry => Array.from(entry.data))).toEqual(entries.map(entry => Array.from(entry.data)));
+    expect(read.map(entry => entry.crc)).toEqual(entries.map(entry => crc32(entry.data)));
+  });
+
+  it('writes the modification time as MS-DOS date and time', async () => {
+    const [entry] = await readZip(createZip([{ name: 'a.png', data: text('x') }], new Date(2026, 2, 15, 13, 45, 31)));
+
+    expect(entry.date).toBe(((2026 - 1980) << 9) | (3 << 5) | 15);
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+  });
+
+  it('writes an empty archive', async () => {
+    const zip = createZip([]);
+
+    expect(zip.type).toBe('application/zip');
+    expect(zip.size).toBe(22);
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server (npm run server) holds the Gemini key; see server/index.ts.
+        // xfwd passes the browser's address on, so the server can rate-limit per client (TRUST_PROXY=1)
+        proxy: {
+          '/api': { target: env.API_SERVER_URL || 'http://127.0.0.1:8787', xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LOCAL_INPAINT_URL': JSON.stringify(env.LOCAL_INPAINT_URL || '')
       },
       resolve: {
         alias: {